@@ -1,43 +1,212 @@
 import { config } from "dotenv";
 import express, { Request, Response } from "express";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import cors from "cors";
 import fs from "fs";
-import Irys from "@irys/sdk";
 import path from "path";
-import axios from "axios";
 import { ethers } from "ethers";
 import { getAllBounties } from "./scripts/get-all-bounties";
-import { uploadFromData } from "./scripts/upload-irys";
+import {
+  StorageTag,
+  fetchJson,
+  fetchText,
+  getStorage,
+  readLocalObject,
+} from "./scripts/storage";
+import {
+  DEFAULT_AI_MODEL,
+  GenerationRequest,
+  ResolvedModel,
+  listProviders,
+  resolveModel,
+} from "./scripts/llm-providers";
+import {
+  PromptTemplate,
+  TemplateReference,
+  getDomainDefaults,
+  getTemplate,
+  listTemplates,
+  renderPrompt,
+  saveTemplateVersion,
+  selectTemplate,
+  setDomainDefault,
+  templateResponseSchema,
+} from "./scripts/prompt-templates";
+import {
+  JsonSchema,
+  SchemaViolation,
+  assertSupportedSchema,
+  validateAgainstSchema,
+} from "./scripts/json-schema";
+import {
+  getGeneratorSigner,
+  signDataset,
+  signRow,
+  verifyDatasetSignatures,
+} from "./scripts/dataset-signing";
+import {
+  GenerationJob,
+  cancelJob,
+  enqueueJob,
+  getJob,
+  isJobCancelled,
+  listJobs,
+  startJobWorker,
+  updateJob,
+} from "./scripts/generation-jobs";
+import { RateLimiter, withRetry } from "./scripts/rate-limit";
+import {
+  DEFAULT_LEAKAGE_CONFIG,
+  LeakageConfig,
+  LeakageScore,
+  buildPrivacyReport,
+  outputText,
+  scoreLeakage,
+} from "./scripts/privacy-leakage";
+import {
+  DEFAULT_DIVERSITY_CONFIG,
+  DiversityConfig,
+  DiversityIndex,
+  buildDiversityReport,
+  minhash,
+  variationHint,
+} from "./scripts/diversity";
+import { redactInputs } from "./scripts/redaction";
+import {
+  HuggingFaceReference,
+  MAX_SOURCE_RECORDS,
+  SourceDescription,
+  SourceRecord,
+  assertGeneratedRows,
+  fetchHuggingFaceRows,
+  normalizeSourceRecords,
+  variantsPerRow,
+} from "./scripts/source-records";
+import {
+  CONTENT_TYPES,
+  DatasetFormat,
+  FILE_EXTENSIONS,
+  parseDataset,
+  resolveFormat,
+  serializeDataset,
+  typedRows,
+} from "./scripts/dataset-formats";
+import {
+  ColumnSpec,
+  assembleRow,
+  columnsToSchema,
+  createRng,
+  describeRow,
+  hashCategories,
+  inferColumnSpecs,
+  normalizeColumnSpecs,
+  rowText,
+  sampleRecords,
+  sampleRow,
+} from "./scripts/tabular";
+import {
+  TokenUsage,
+  UsageBudget,
+  UsageTotals,
+  addUsage,
+  budgetExhausted,
+  emptyUsage,
+  estimateTokens,
+  remainingBudget,
+  resolveBudget,
+  resolveMaxOutputTokens,
+  sumUsage,
+  usageCost,
+} from "./scripts/token-usage";
+import {
+  JudgeConfig,
+  QualityScore,
+  buildQualityReport,
+  judgeRequest,
+  parseJudgement,
+  resolveMinScore,
+  rubric,
+} from "./scripts/quality-judge";
+import {
+  ParentDataset,
+  VersionMode,
+  parentDataset,
+  parentRows,
+  resolveVersionMode,
+  rowDiff,
+  versionMetadata,
+  versionRows,
+} from "./scripts/dataset-versions";
+import {
+  cacheStats,
+  cachedGenerate,
+  clearCache,
+  useCache,
+} from "./scripts/llm-cache";
+import {
+  ExperimentVariant,
+  VariantResult,
+  getExperiment,
+  listExperiments,
+  markPromoted,
+  normalizeVariants,
+  pickWinner,
+  saveExperiment,
+  variantScore,
+} from "./scripts/prompt-experiments";
+import {
+  AttemptRecord,
+  GenerationManifest,
+  buildManifest,
+  compareManifests,
+  contentHash,
+} from "./scripts/generation-manifest";
+import {
+  TableProfile,
+  expectedTableProfile,
+  profileTable,
+  tabularFidelity,
+  textFidelity,
+} from "./scripts/fidelity";
+import {
+  PublicationProfile,
+  assertNoSourceText,
+  preparePublication,
+  resolvePublicationProfile,
+  sourceHash,
+} from "./scripts/publication";
+import {
+  UploadProgress,
+  fetchContent,
+  uploadContent,
+} from "./scripts/chunked-upload";
+import {
+  DatasetEncryption,
+  ENCRYPTION_ALGORITHM,
+  assertKeyMintable,
+  assertKeyReleasable,
+  bindDatasetKey,
+  encryptDataset,
+  encryptWithDatasetKey,
+  findDatasetKey,
+  isEncrypted,
+  keyRequestMessage,
+  recordContentUrl,
+  unwrapDatasetKey,
+  verifyKeyRequest,
+} from "./scripts/dataset-encryption";
+import {
+  DatasetHashAlgorithm,
+  hashDatasetContent,
+  resolveDatasetHashAlgorithm,
+  sameHash,
+} from "./scripts/dataset-hash";
 // Explicitly load the .env file from the same directory as api.ts
 config({ path: path.resolve(__dirname, ".env") });
 
-// --- Irys Helper Function ---
-const getIrys = async () => {
-  const network = "devnet"; // Use "mainnet" for production
-  const providerUrl = process.env.INFURA_RPC; // e.g., from Infura or Alchemy
-  const token = "ethereum";
-
-  if (!providerUrl) {
-    throw new Error("INFURA_RPC is not set in the .env file");
-  }
-
-  const irys = new Irys({
-    network,
-    token,
-    key: process.env.PRIVATE_KEY,
-    config: { providerUrl },
-  });
-  return irys;
-};
-
 const app = express();
 app.use(express.json());
 app.use(cors({ origin: "*" })); // Adjust as needed
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
-const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" }); // Use stable version
-
 const HISTORY_FILE = path.resolve(__dirname, "history.json"); // Local file for history inside saga folder
 
 // Initialize history file if not exists
@@ -47,113 +216,1186 @@ if (!fs.existsSync(HISTORY_FILE)) {
 
 interface SyntheticRow {
   original_text: string;
-  synthetic_output: {
-    synthetic_transcription: string;
-    medical_specialty: string;
-    explanation: string;
-  };
+  // Shape is defined by the row schema of the dataset
+  synthetic_output: Record<string, any>;
+  generator: { provider: string; model: string };
   verification_status: string;
+  violations: SchemaViolation[];
   signature: string;
+  // Lineage back to the source record the row was generated from
+  source_id?: string;
+  variant?: number;
+  privacy?: LeakageScore;
+  // Set on rejected rows that nearly repeat an accepted one
+  duplicate_of?: { index: number; similarity: number };
+  // Judge scores, when the request enabled the judge
+  quality?: QualityScore;
+  // Tokens and cost of the model call that produced the row
+  usage?: TokenUsage & { cost_usd: number | null };
 }
 
-async function generate_synthetic_data(
-  model: any,
-  base_data: { text: string }[]
-): Promise<SyntheticRow[]> {
-  const synthetic_results: SyntheticRow[] = [];
-  for (let i = 0; i < base_data.length; i++) {
-    try {
-      console.log(`Processing row ${i + 1}/${base_data.length}...`);
-      const original_text = base_data[i].text;
-
-      const prompt = `
-        You are a helpful assistant for creating synthetic medical data.
-        Based on the following medical transcription, please generate a new, paraphrased version.
-        The new version should be medically coherent but different in wording.
-        Also, provide a new 'medical_specialty' and a brief 'explanation' for the generated transcription.
-
-        Original Transcription:
-        "${original_text}"
-
-        Please provide the output in a valid JSON format with the following keys:
-        - "synthetic_transcription": The new, paraphrased transcription.
-        - "medical_specialty": The relevant medical specialty.
-        - "explanation": A brief explanation of the synthetic transcription.
-
-        Example Output:
-        {
-            "synthetic_transcription": "The patient reports a history of chronic migraines and is currently prescribed sumatriptan.",
-            "medical_specialty": "Neurology",
-            "explanation": "This transcription documents a patient's history and treatment for a neurological condition."
+interface GenerationLimits {
+  concurrency: number;
+  requests_per_minute: number;
+  max_retries: number;
+  // Failed attempts tolerated before giving up on reaching the target
+  failure_budget?: number;
+}
+
+interface GenerationOptions {
+  llm: ResolvedModel;
+  template: PromptTemplate;
+  schema: JsonSchema;
+  // True when the request supplied its own response_schema
+  custom_schema: boolean;
+  limits: GenerationLimits;
+  leakage: LeakageConfig;
+  diversity: DiversityConfig;
+  publication: PublicationProfile;
+  // File format of the uploaded content, from output_format
+  format: DatasetFormat;
+  // Column specs in tabular mode; the row schema is derived from them
+  tabular?: ColumnSpec[];
+  // Output limit of each model call, from max_tokens
+  max_output_tokens: number;
+  // Read and write the response cache
+  cache: boolean;
+  // Second-pass quality scoring, when enabled
+  judge?: JudgeConfig;
+  temperature: number;
+  budget: UsageBudget;
+}
+
+interface GenerationStats {
+  requested: number;
+  produced: number;
+  attempts: number;
+  retries: number;
+  failures: number;
+  rejected: number;
+  // Subset of `rejected` dropped for copying too much of the source
+  leakage_rejected: number;
+  // Rows the judge scored below min_quality_score
+  quality_rejected: number;
+  // Subset of `rejected` dropped as near-duplicates of accepted rows
+  duplicates: number;
+  // Every model call, including rejected rows; cache hits are not billed
+  usage: UsageTotals;
+  cache: { hits: number; misses: number };
+  // True when generation stopped at max_total_tokens or max_cost_usd
+  budget_exhausted: boolean;
+  // Time spent waiting on the model, including retried calls
+  model_time_ms: number;
+}
+
+interface GenerationOutcome {
+  rows: SyntheticRow[];
+  // Rows that failed schema validation, the leakage or the diversity check
+  rejected: SyntheticRow[];
+  stats: GenerationStats;
+  // Every model call, for the generation manifest
+  attempts: AttemptRecord[];
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+const DEFAULT_LIMITS: GenerationLimits = {
+  concurrency: Number(process.env.GENERATION_CONCURRENCY) || 4,
+  requests_per_minute: Number(process.env.GENERATION_RPM) || 60,
+  max_retries: Number(process.env.GENERATION_MAX_RETRIES) || 4,
+};
+
+// Resolve the provider, prompt template and row schema a request asks for
+function resolve_generation_options(body: {
+  ai_model?: string;
+  domain?: string;
+  template_id?: string;
+  template_version?: number;
+  response_schema?: JsonSchema;
+  concurrency?: number;
+  requests_per_minute?: number;
+  max_retries?: number;
+  failure_budget?: number;
+  leakage_threshold?: number;
+  leakage_action?: string;
+  diversity_threshold?: number;
+  publication_profile?: string;
+  visibility?: string;
+  output_format?: string;
+  columns?: ColumnSpec[];
+  max_tokens?: number;
+  max_total_tokens?: number;
+  max_cost_usd?: number;
+  temperature?: number;
+  cache?: boolean | string;
+  parent?: ParentDataset;
+  version_mode?: VersionMode;
+  source_profile?: TableProfile;
+  judge?: boolean | string;
+  judge_model?: string;
+  min_quality_score?: number;
+}): GenerationOptions {
+  const tabular = body.columns;
+  // Tabular requests use the tabular template unless one is named
+  const template = selectTemplate(
+    tabular && !body.template_id ? { ...body, domain: "tabular" } : body
+  );
+
+  if (tabular && body.response_schema) {
+    throw new Error("response_schema cannot be combined with columns");
+  }
+  if (body.response_schema) {
+    assertSupportedSchema(body.response_schema);
+  }
+  const schema = tabular
+    ? columnsToSchema(tabular)
+    : body.response_schema || templateResponseSchema(template);
+  if (
+    body.parent?.row_schema_hash &&
+    body.version_mode === "append" &&
+    body.parent.row_schema_hash !==
+      contentHash(published_schema(body, tabular, schema).schema)
+  ) {
+    throw new Error(
+      'Appended rows must use the parent\'s row schema; use version_mode "regenerate" to change it'
+    );
+  }
+
+  const diversity_threshold =
+    body.diversity_threshold !== undefined
+      ? Number(body.diversity_threshold)
+      : DEFAULT_DIVERSITY_CONFIG.threshold;
+  if (!(diversity_threshold > 0 && diversity_threshold <= 1)) {
+    throw new Error("diversity_threshold must be between 0 and 1");
+  }
+
+  const leakage_action = body.leakage_action || DEFAULT_LEAKAGE_CONFIG.action;
+  if (leakage_action !== "reject" && leakage_action !== "flag") {
+    throw new Error('leakage_action must be "reject" or "flag"');
+  }
+
+  const llm = resolveModel(body.ai_model);
+
+  // A judge model or a minimum score turns the judge on by itself
+  const min_quality_score = resolveMinScore(body.min_quality_score);
+  const judge =
+    body.judge === true ||
+    body.judge === "true" ||
+    !!body.judge_model ||
+    min_quality_score !== null
+      ? {
+          llm: body.judge_model ? resolveModel(body.judge_model) : llm,
+          domain: body.domain || template.domains[0] || template.id,
+          min_score: min_quality_score,
         }
-      `;
+      : undefined;
+
+  const temperature =
+    body.temperature !== undefined
+      ? Number(body.temperature)
+      : DEFAULT_TEMPERATURE;
+  if (!(temperature >= 0 && temperature <= 2)) {
+    throw new Error("temperature must be between 0 and 2");
+  }
 
-      const generationConfig = {
-        responseMimeType: "application/json",
-        maxOutputTokens: 3000,
-        temperature: 0.7,
-      };
+  return {
+    llm,
+    template,
+    schema,
+    custom_schema: Boolean(tabular || body.response_schema),
+    limits: {
+      concurrency: Math.max(
+        1,
+        Number(body.concurrency) || DEFAULT_LIMITS.concurrency
+      ),
+      requests_per_minute:
+        Number(body.requests_per_minute) || DEFAULT_LIMITS.requests_per_minute,
+      max_retries:
+        body.max_retries !== undefined
+          ? Number(body.max_retries)
+          : DEFAULT_LIMITS.max_retries,
+      failure_budget:
+        body.failure_budget !== undefined
+          ? Number(body.failure_budget)
+          : undefined,
+    },
+    leakage: {
+      threshold:
+        body.leakage_threshold !== undefined
+          ? Number(body.leakage_threshold)
+          : DEFAULT_LEAKAGE_CONFIG.threshold,
+      action: leakage_action,
+    },
+    diversity: { threshold: diversity_threshold },
+    publication: resolvePublicationProfile(
+      body.publication_profile,
+      body.visibility
+    ),
+    format: resolveFormat(body.output_format),
+    ...(tabular ? { tabular } : {}),
+    max_output_tokens: resolveMaxOutputTokens(body.max_tokens),
+    temperature,
+    budget: resolveBudget(body, [
+      llm.model,
+      ...(judge ? [judge.llm.model] : []),
+    ]),
+    cache: useCache(body.cache),
+    ...(judge ? { judge } : {}),
+  };
+}
 
-      const response = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig,
-      });
+// One row to generate; batch sources carry the id of their source record
+interface GenerationInput {
+  text: string;
+  source_id?: string;
+  variant?: number;
+  // Locally sampled column values in tabular mode
+  fixed?: Record<string, any>;
+}
+
+interface GenerationHooks {
+  onRow?: (row: SyntheticRow) => void;
+  // Called after every attempt with the running totals
+  onProgress?: (stats: GenerationStats) => void;
+  onAttempt?: (attempt: AttemptRecord) => void;
+  isCancelled?: () => boolean;
+  // Rows accepted by an earlier run of the same job, checked for duplicates
+  accepted?: SyntheticRow[];
+}
 
-      if (!response.response.text()) {
-        console.log(`  Skipping row ${i + 1} due to empty response.`);
-        continue;
+/**
+ * Generate one verified row per input. Runs up to `concurrency` requests at
+ * once under the requests-per-minute limit, retries transient errors with
+ * backoff, and retries inputs whose row failed or was rejected until every
+ * input has a row or the failure budget runs out.
+ */
+async function generate_synthetic_data(
+  options: GenerationOptions,
+  base_data: GenerationInput[],
+  hooks: GenerationHooks = {}
+): Promise<GenerationOutcome> {
+  const target = base_data.length;
+  const { llm, template, schema, limits } = options;
+  const failure_budget = limits.failure_budget ?? Math.max(target, 3);
+  const limiter = new RateLimiter(limits.requests_per_minute);
+
+  const rows: SyntheticRow[] = [];
+  const rejected: SyntheticRow[] = [];
+  const attempts: AttemptRecord[] = [];
+  const stats: GenerationStats = {
+    requested: target,
+    produced: 0,
+    attempts: 0,
+    retries: 0,
+    failures: 0,
+    rejected: 0,
+    leakage_rejected: 0,
+    quality_rejected: 0,
+    duplicates: 0,
+    usage: emptyUsage(),
+    cache: { hits: 0, misses: 0 },
+    budget_exhausted: false,
+    model_time_ms: 0,
+  };
+  // Inputs still waiting for a row; failed inputs go back to the end
+  const pending = base_data.map((_, index) => index);
+  const diversity = new DiversityIndex(options.diversity);
+  hooks.accepted?.forEach((row) =>
+    diversity.add(minhash(diversity_text(options, row.synthetic_output)))
+  );
+  // How often each source text has been sent, to vary repeated prompts
+  const uses = new Map<string, number>();
+
+  // Requests already in flight finish, so a budget can be overshot by up to
+  // `concurrency` calls
+  const within_budget = () => {
+    stats.budget_exhausted =
+      stats.budget_exhausted || budgetExhausted(options.budget, stats.usage);
+    return !stats.budget_exhausted;
+  };
+
+  const should_continue = () =>
+    pending.length > 0 &&
+    stats.failures < failure_budget &&
+    !hooks.isCancelled?.() &&
+    within_budget();
+
+  // One model call under the rate limit, with retries, through the cache
+  // when it is enabled. Cache hits are not added to the usage totals.
+  const call_model = async (
+    model: ResolvedModel,
+    request: GenerationRequest,
+    i: number,
+    attempt: AttemptRecord
+  ) => {
+    const response = await withRetry(
+      async () => {
+        await limiter.acquire();
+        const started = Date.now();
+        try {
+          return options.cache
+            ? await cachedGenerate(model.provider, model.model, request)
+            : await model.provider.generate(model.model, request);
+        } finally {
+          stats.model_time_ms += Date.now() - started;
+          attempt.latency_ms += Date.now() - started;
+        }
+      },
+      {
+        maxRetries: limits.max_retries,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+        onRetry: (error, retry, delay) => {
+          stats.retries++;
+          console.log(
+            `  Attempt ${i + 1}: ${error} (retry ${retry} in ${delay}ms)`
+          );
+        },
       }
+    );
+
+    const usage = response.usage || {
+      input_tokens: estimateTokens(request.prompt),
+      output_tokens: estimateTokens(response.text || ""),
+      total_tokens:
+        estimateTokens(request.prompt) + estimateTokens(response.text || ""),
+    };
+    // Providers may answer with a dated snapshot of the requested model
+    const cost = response.cached
+      ? 0
+      : usageCost(response.model, usage) ?? usageCost(model.model, usage);
+    if (response.cached) {
+      stats.cache.hits++;
+    } else {
+      if (options.cache) stats.cache.misses++;
+      stats.usage = addUsage(stats.usage, usage, cost);
+    }
+    return { response, usage, cost };
+  };
 
-      const synthetic_output = JSON.parse(response.response.text());
+  // Score a row that passed every other check with the judge model
+  const judge_row = async (
+    judge: JudgeConfig,
+    output: Record<string, any>,
+    i: number,
+    attempt: AttemptRecord
+  ) => {
+    const criteria = rubric(template, judge.domain, output);
+    const { response } = await call_model(
+      judge.llm,
+      judgeRequest(criteria, judge.domain, output),
+      i,
+      attempt
+    );
+    return parseJudgement(
+      criteria,
+      response.text,
+      { provider: response.provider, model: response.model },
+      judge.min_score
+    );
+  };
 
-      const verified_signed_data = verify_and_sign_data({
-        original_text,
-        synthetic_output,
-      });
+  const worker = async () => {
+    while (should_continue()) {
+      const i = stats.attempts++;
+      const slot = pending.shift()!;
+      const {
+        text: original_text,
+        source_id,
+        variant,
+        fixed,
+      } = base_data[slot];
+      let accepted = false;
+      const round = uses.get(original_text) || 0;
+      uses.set(original_text, round + 1);
+      const attempt: AttemptRecord = {
+        attempt: i,
+        input: slot,
+        ...(source_id !== undefined ? { source_id, variant } : {}),
+        prompt: "",
+        prompt_hash: "",
+        model: null,
+        latency_ms: 0,
+        status: "failed",
+      };
 
-      if (verified_signed_data) {
-        synthetic_results.push(verified_signed_data);
+      try {
         console.log(
-          `  Successfully generated and verified synthetic data for row ${
-            i + 1
-          }.`
+          `Processing attempt ${i + 1} (${stats.produced}/${target})...`
+        );
+
+        const prompt = renderPrompt(
+          template,
+          original_text,
+          options.custom_schema ? schema : undefined,
+          round > 0 ? variationHint(round) : undefined
         );
+        attempt.prompt = prompt;
+        attempt.prompt_hash = contentHash(prompt);
+
+        const { response, usage, cost } = await call_model(
+          llm,
+          {
+            prompt,
+            maxOutputTokens: options.max_output_tokens,
+            temperature: options.temperature,
+            responseSchema: schema,
+          },
+          i,
+          attempt
+        );
+        if (response.cached) {
+          attempt.cached = true;
+        }
+        attempt.model = response.model;
+
+        if (!response.text) {
+          throw new Error("Empty response");
+        }
+
+        const parsed = JSON.parse(response.text);
+        const synthetic_output = options.tabular
+          ? assembleRow(options.tabular, parsed, fixed || {})
+          : parsed;
+        attempt.output_hash = contentHash(synthetic_output);
+
+        const verified_signed_data = verify_and_sign_data(
+          {
+            original_text,
+            synthetic_output,
+            generator: { provider: response.provider, model: response.model },
+            ...(source_id !== undefined ? { source_id, variant } : {}),
+          },
+          schema
+        );
+
+        // Tabular prompts are column specs, not source text to leak
+        const privacy = options.tabular
+          ? undefined
+          : scoreLeakage(original_text, synthetic_output, options.leakage);
+        // Judged before the duplicate check, so no await separates that
+        // check from adding the row to the index
+        const quality =
+          options.judge &&
+          verified_signed_data?.verification_status === "verified" &&
+          privacy?.status !== "rejected"
+            ? await judge_row(options.judge, synthetic_output, i, attempt)
+            : undefined;
+        if (quality) {
+          attempt.quality_score = quality.score;
+        }
+        const signature = minhash(diversity_text(options, synthetic_output));
+        const duplicate = diversity.findDuplicate(signature);
+        const row = verified_signed_data && {
+          ...verified_signed_data,
+          usage: { ...usage, cost_usd: cost },
+          ...(privacy ? { privacy } : {}),
+          ...(quality ? { quality } : {}),
+          ...(duplicate ? { duplicate_of: duplicate } : {}),
+        };
+
+        if (
+          row?.verification_status === "verified" &&
+          privacy?.status !== "rejected" &&
+          quality?.status !== "rejected" &&
+          !duplicate
+        ) {
+          diversity.add(signature);
+          accepted = true;
+          attempt.status = "accepted";
+          rows.push(row);
+          stats.produced++;
+          hooks.onRow?.(row);
+          console.log(
+            `  Attempt ${i + 1} verified (${stats.produced}/${target}).`
+          );
+        } else {
+          attempt.status = "rejected";
+          attempt.reason =
+            row?.verification_status !== "verified"
+              ? "validation"
+              : privacy?.status === "rejected"
+              ? "leakage"
+              : quality?.status === "rejected"
+              ? "quality"
+              : "duplicate";
+          if (row?.violations.length) {
+            attempt.violations = row.violations.map(({ path, keyword }) => ({
+              path,
+              keyword,
+            }));
+          }
+          if (row) {
+            rejected.push(row);
+          }
+          if (privacy?.status === "rejected") {
+            console.log(
+              `  Attempt ${i + 1} rejected: leakage score ${privacy.score}.`
+            );
+            stats.leakage_rejected++;
+          } else if (quality?.status === "rejected") {
+            console.log(
+              `  Attempt ${i + 1} rejected: quality score ${quality.score}.`
+            );
+            stats.quality_rejected++;
+          } else if (row?.verification_status === "verified" && duplicate) {
+            console.log(
+              `  Attempt ${i + 1} rejected: ${
+                duplicate.similarity
+              } similar to row ${duplicate.index}.`
+            );
+            stats.duplicates++;
+          }
+          stats.rejected++;
+          stats.failures++;
+        }
+      } catch (error) {
+        console.log(`  Error for attempt ${i + 1}: ${error}.`);
+        attempt.reason = "error";
+        attempt.error = String(error);
+        stats.failures++;
+      } finally {
+        if (!accepted) {
+          pending.push(slot);
+        }
+        attempts.push(attempt);
+        hooks.onAttempt?.(attempt);
+        hooks.onProgress?.({ ...stats });
       }
-    } catch (error) {
-      console.log(`  Error for row ${i + 1}: ${error}. Skipping.`);
     }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limits.concurrency, target) }, worker)
+  );
+
+  if (hooks.isCancelled?.()) {
+    console.log(`Generation cancelled with ${stats.produced} rows.`);
+  } else if (stats.budget_exhausted) {
+    console.log(
+      `Usage budget exhausted: ${stats.produced}/${target} rows generated.`
+    );
+  } else if (stats.produced < target) {
+    console.log(
+      `Failure budget exhausted: ${stats.produced}/${target} rows generated.`
+    );
   }
-  return synthetic_results;
+
+  return { rows, rejected, stats, attempts };
 }
 
-function verify_and_sign_data(synthetic_row: {
-  original_text: string;
-  synthetic_output: any;
-}): SyntheticRow | null {
+function verify_and_sign_data(
+  synthetic_row: {
+    original_text: string;
+    synthetic_output: any;
+    generator: { provider: string; model: string };
+    source_id?: string;
+    variant?: number;
+  },
+  schema: JsonSchema
+): SyntheticRow | null {
   try {
-    const output = synthetic_row.synthetic_output;
-    if (
-      !["synthetic_transcription", "medical_specialty", "explanation"].every(
-        (key) => key in output && output[key]
-      )
-    ) {
-      console.log("  Verification failed: Missing or empty fields.");
-      return { ...synthetic_row, verification_status: "failed", signature: "" };
+    const violations = validateAgainstSchema(
+      synthetic_row.synthetic_output,
+      schema
+    );
+    if (violations.length > 0) {
+      console.log(
+        `  Verification failed: ${violations
+          .map((v) => `${v.path} (${v.keyword})`)
+          .join(", ")}`
+      );
+      return {
+        ...synthetic_row,
+        verification_status: "failed",
+        violations,
+        signature: "",
+      };
     }
 
-    // Removed ECDSA logic as per request
-    return { ...synthetic_row, verification_status: "verified", signature: "" };
+    return {
+      ...synthetic_row,
+      verification_status: "verified",
+      violations: [],
+      signature: signRow(synthetic_row),
+    };
   } catch (error) {
     console.log(`  Error during verification/signing: ${error}`);
     return null;
   }
 }
 
-// Main generate endpoint
-app.post("/api/generate", async (req: Request, res: Response) => {
+// Judge summary for the metadata, when the judge was enabled
+function quality_report(
+  rows: SyntheticRow[],
+  options: GenerationOptions,
+  stats: GenerationStats
+) {
+  if (!options.judge) return null;
+  return buildQualityReport(
+    rows.flatMap((row) => (row.quality ? [row.quality] : [])),
+    options.judge,
+    stats.quality_rejected
+  );
+}
+
+// Leakage summary for the metadata; rows carry their own score
+function privacy_report(
+  rows: SyntheticRow[],
+  options: GenerationOptions,
+  stats: GenerationStats
+) {
+  if (options.tabular) return null;
+  return buildPrivacyReport(
+    rows.map(
+      (row) =>
+        row.privacy ||
+        scoreLeakage(row.original_text, row.synthetic_output, options.leakage)
+    ),
+    options.leakage,
+    stats.leakage_rejected
+  );
+}
+
+// Detectors selected by the request; the baseline detectors run regardless
+function redaction_detectors(body: Record<string, any>): string[] | undefined {
+  const selected = body.redaction_detectors;
+  if (selected === undefined || selected === null) {
+    return undefined;
+  }
+  if (typeof selected === "string") {
+    return selected
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+  }
+  if (
+    !Array.isArray(selected) ||
+    !selected.every((name) => typeof name === "string")
+  ) {
+    throw new Error("redaction_detectors must be a list of detector names");
+  }
+  return selected;
+}
+
+const has_batch_source = (body: Record<string, any>) =>
+  !!(body.source_records || body.samples || body.huggingface);
+
+const is_tabular = (body: Record<string, any>) =>
+  body.mode === "tabular" || !!(body.columns || body.sample_csv);
+
+/**
+ * Replace PII in input_text and source records before they reach a model,
+ * history or Irys. The report travels with the body; the token map is only
+ * kept locally. A tabular body already carries the report of its sample_csv,
+ * which input_text is added to.
+ */
+function redact_request(body: Record<string, any>): Record<string, any> {
+  const records: SourceRecord[] = body.source_records || [];
+  const has_text =
+    typeof body.input_text === "string" && body.input_text !== "";
+  if (!has_text && records.length === 0) {
+    return body;
+  }
+  const { texts, report } = redactInputs(
+    [
+      ...records.map((record) => record.text),
+      ...(has_text ? [body.input_text] : []),
+    ],
+    redaction_detectors(body),
+    is_tabular(body) ? body.redaction : undefined
+  );
+  return {
+    ...body,
+    ...(has_text ? { input_text: texts[records.length] } : {}),
+    ...(records.length > 0
+      ? {
+          source_records: records.map((record, i) => ({
+            ...record,
+            text: texts[i],
+          })),
+        }
+      : {}),
+    redaction: report,
+  };
+}
+
+/**
+ * Load the rows a request generates from. `source_records` (or the `samples`
+ * returned by /api/fetch-dataset) are used as given, a `huggingface`
+ * reference is fetched; either way they end up in `source_records` with ids.
+ * Without a batch source, input_text is repeated sample_size times.
+ * Tabular requests have no source text: `columns` (or specs inferred from
+ * `sample_csv`, which is redacted first and dropped afterwards) and a
+ * sampling seed are kept, along with the sample's marginals for the
+ * fidelity report.
+ */
+async function resolve_sources(
+  body: Record<string, any>
+): Promise<Record<string, any>> {
+  if (is_tabular(body)) {
+    const { sample_csv: raw_csv, ...rest } = body;
+    if (!body.columns && !raw_csv) {
+      throw new Error('mode "tabular" needs columns or sample_csv');
+    }
+    const redacted =
+      raw_csv && redactInputs([raw_csv], redaction_detectors(body));
+    const sample_csv = redacted && redacted.texts[0];
+    const columns = body.columns
+      ? normalizeColumnSpecs(body.columns)
+      : inferColumnSpecs(sample_csv);
+    const source_profile = sample_csv
+      ? profileTable(columns, sampleRecords(sample_csv))
+      : undefined;
+    const seed =
+      body.seed !== undefined
+        ? Number(body.seed)
+        : Math.floor(Math.random() * 2 ** 32);
+    if (!Number.isInteger(seed)) {
+      throw new Error("seed must be an integer");
+    }
+    const source: SourceDescription = {
+      type: "tabular",
+      rows: Number(body.sample_size),
+      variants_per_row: 1,
+    };
+    return {
+      ...rest,
+      mode: "tabular",
+      columns,
+      seed,
+      source,
+      source_profile,
+      redaction: redacted ? redacted.report : undefined,
+    };
+  }
+
+  if (!has_batch_source(body)) {
+    const source: SourceDescription = {
+      type: "text",
+      rows: 1,
+      variants_per_row: Number(body.sample_size),
+    };
+    return { ...body, source };
+  }
+
+  const variants_per_row = variantsPerRow(body.variants_per_row);
+
+  if (body.huggingface) {
+    const reference: HuggingFaceReference =
+      typeof body.huggingface === "string"
+        ? { dataset: body.huggingface }
+        : body.huggingface;
+    if (!reference.dataset) {
+      throw new Error("huggingface.dataset is required");
+    }
+    // Checked before fetching, as at most `limit` rows come back
+    assertGeneratedRows(
+      Math.min(Number(reference.limit ?? 5), MAX_SOURCE_RECORDS),
+      variants_per_row
+    );
+    const records = normalizeSourceRecords(
+      await fetchHuggingFaceRows(reference)
+    );
+    const source: SourceDescription = {
+      type: "huggingface",
+      dataset: reference.dataset,
+      config: reference.config || "default",
+      split: reference.split || "train",
+      rows: records.length,
+      variants_per_row,
+    };
+    return { ...body, source_records: records, variants_per_row, source };
+  }
+
+  const records = normalizeSourceRecords(body.source_records || body.samples);
+  assertGeneratedRows(records.length, variants_per_row);
+  const source: SourceDescription = {
+    type: "records",
+    rows: records.length,
+    variants_per_row,
+  };
+  return { ...body, source_records: records, variants_per_row, source };
+}
+
+/**
+ * Load the dataset a request adds a version to, from `parent_metadata_url`
+ * or the tokenURI of `parent_token_id`. Its rows are read and checked here,
+ * before any model call. The output format, publication profile, visibility
+ * and domain default to the parent's; appended rows must share the parent's
+ * profile.
+ */
+async function resolve_parent(
+  body: Record<string, any>
+): Promise<Record<string, any>> {
+  const { parent_metadata_url, parent_token_id } = body;
+  if (
+    !parent_metadata_url &&
+    (parent_token_id === undefined || parent_token_id === "")
+  ) {
+    return body;
+  }
+
+  let uri = parent_metadata_url;
+  if (!uri) {
+    const { contract } = await getContract();
+    uri = await contract.tokenURI(parent_token_id);
+  }
+  const metadata = await fetchJson(uri);
+  const described = parentDataset(uri, metadata, parent_token_id);
+  const parent: ParentDataset = {
+    ...described,
+    rows: parentRows(
+      described,
+      await fetchContent(described.content_url),
+      metadata.row_schema
+    ),
+  };
+  const version_mode = resolveVersionMode(body.version_mode);
+
+  const publication_profile =
+    body.publication_profile || parent.publication_profile;
+  if (
+    version_mode === "append" &&
+    publication_profile !== parent.publication_profile
+  ) {
+    throw new Error(
+      `Appended rows must use the parent's publication_profile "${parent.publication_profile}"`
+    );
+  }
+
+  return {
+    ...body,
+    parent,
+    version_mode,
+    output_format: body.output_format || parent.content_format,
+    publication_profile,
+    visibility: body.visibility || parent.visibility,
+    domain: body.domain || parent.domain,
+  };
+}
+
+// The inputs to generate for a resolved request body, one per output row
+function generation_inputs(body: Record<string, any>): GenerationInput[] {
+  if (body.columns) {
+    // Seeded so a resumed job samples the same rows again
+    const rng = createRng(body.seed);
+    return Array.from({ length: Number(body.sample_size) }, () => {
+      const fixed = sampleRow(body.columns, rng);
+      return { text: describeRow(body.columns, fixed), fixed };
+    });
+  }
+  if (body.source_records) {
+    return (body.source_records as SourceRecord[]).flatMap((record) =>
+      Array.from({ length: body.variants_per_row }, (_, variant) => ({
+        text: record.text,
+        source_id: record.id,
+        variant,
+      }))
+    );
+  }
+  return Array(Number(body.sample_size)).fill({ text: body.input_text });
+}
+
+// Text compared for near-duplicates; table rows include their numbers
+function diversity_text(options: GenerationOptions, output: any) {
+  return options.tabular ? rowText(output) : outputText(output);
+}
+
+// Diversity summary for the metadata
+function diversity_report(
+  rows: SyntheticRow[],
+  options: GenerationOptions,
+  stats: GenerationStats
+) {
+  return buildDiversityReport(
+    rows.map((row) => diversity_text(options, row.synthetic_output)),
+    options.diversity,
+    stats.duplicates
+  );
+}
+
+/**
+ * Compare the rows with their source: the input text or source records, or
+ * for tables the sample CSV's profile (the column specs without a sample).
+ */
+function fidelity_report(
+  body: Record<string, any>,
+  options: GenerationOptions,
+  rows: SyntheticRow[]
+) {
+  if (options.tabular) {
+    return tabularFidelity(
+      options.tabular,
+      body.source_profile || expectedTableProfile(options.tabular),
+      rows.map((row) => row.synthetic_output),
+      body.source_profile ? "sample" : "spec",
+      Boolean(body.source_profile)
+    );
+  }
+
+  const records: SourceRecord[] = body.source_records || [];
+  // The template's main output, e.g. synthetic_transcription
+  const text_key = options.custom_schema
+    ? undefined
+    : Object.keys(options.template.output_keys)[0];
+  const label_key = options.custom_schema
+    ? undefined
+    : options.template.label_key;
+  return textFidelity({
+    source_texts:
+      records.length > 0
+        ? records.map((record) => record.text)
+        : [body.input_text],
+    synthetic_texts: rows.map((row) =>
+      text_key && typeof row.synthetic_output?.[text_key] === "string"
+        ? row.synthetic_output[text_key]
+        : outputText(row.synthetic_output)
+    ),
+    source_labels: records
+      .filter((record) => record.label !== undefined && record.label !== null)
+      .map((record) => String(record.label)),
+    synthetic_labels: label_key
+      ? rows
+          .map((row) => row.synthetic_output?.[label_key])
+          .filter((label) => typeof label === "string")
+      : [],
+  });
+}
+
+/**
+ * Upload a JSON file that accompanies a dataset. Next to an encrypted
+ * dataset it is encrypted under the dataset's key as well.
+ */
+async function upload_companion(
+  value: any,
+  type: string,
+  encryption?: DatasetEncryption
+) {
+  const tags = [
+    { name: "App-Name", value: "SagaSynth" },
+    { name: "Type", value: type },
+  ];
+  if (!encryption) {
+    return getStorage().upload(JSON.stringify(value), [
+      { name: "Content-Type", value: "application/json" },
+      ...tags,
+    ]);
+  }
+  const { data } = encryptWithDatasetKey(
+    encryption.key_id,
+    JSON.stringify(value),
+    "application/json"
+  );
+  return getStorage().upload(data, [
+    { name: "Content-Type", value: "application/octet-stream" },
+    { name: "Encryption", value: ENCRYPTION_ALGORITHM },
+    ...tags,
+  ]);
+}
+
+// Response to requests for content of a private dataset, which only its
+// key holders can decrypt
+const PRIVATE_DATASET = {
+  error: "Dataset is private",
+  details:
+    "Its content is encrypted; decrypt it with the key from POST /api/dataset/:tokenId/key",
+};
+
+// Read a file written by upload_companion; null when it is encrypted
+async function fetch_companion(url: string) {
+  const { text } = await fetchText(url);
+  return isEncrypted(text) ? null : JSON.parse(text);
+}
+
+/**
+ * Build the fidelity report at the end of generation and upload it next to
+ * the metadata, which links to it with fidelity_url.
+ */
+async function upload_fidelity_report(
+  body: Record<string, any>,
+  options: GenerationOptions,
+  rows: SyntheticRow[],
+  encryption?: DatasetEncryption
+) {
+  const report = {
+    ...fidelity_report(body, options, rows),
+    created_at: new Date().toISOString(),
+  };
+  assertNoSourceText(report, [
+    ...(typeof body.input_text === "string" ? [body.input_text] : []),
+    ...rows.map((row) => row.original_text),
+  ]);
+
+  console.log("Uploading fidelity report to Irys...");
+  const fidelity_url = await upload_companion(report, "Fidelity", encryption);
+  return { fidelity_url, fidelity_score: report.fidelity_score };
+}
+
+/**
+ * Column specs and row schema as published in metadata and manifests.
+ * Categories learned from a sample CSV are listed by hash.
+ */
+function published_schema(
+  body: { source_profile?: TableProfile },
+  tabular: ColumnSpec[] | undefined,
+  schema: JsonSchema
+) {
+  if (!tabular || !body.source_profile) {
+    return { columns: tabular, schema };
+  }
+  const columns = hashCategories(tabular);
+  return { columns, schema: columnsToSchema(columns) };
+}
+
+function generation_manifest(
+  body: Record<string, any>,
+  options: GenerationOptions,
+  rows: SyntheticRow[],
+  attempts: AttemptRecord[]
+): GenerationManifest {
+  const published = published_schema(body, options.tabular, options.schema);
+  return buildManifest({
+    body: options.tabular ? { ...body, columns: published.columns } : body,
+    provider: options.llm.provider.name,
+    model: options.llm.model,
+    temperature: options.temperature,
+    max_output_tokens: options.max_output_tokens,
+    template: options.template,
+    schema: published.schema,
+    sources: rows.map((row) => row.original_text),
+    produced: rows.length,
+    attempts,
+    profile: options.publication,
+  });
+}
+
+/**
+ * Upload the manifest of a generation next to the dataset. The metadata
+ * references it by URL and by the content hash of its plaintext.
+ */
+async function upload_manifest(
+  body: Record<string, any>,
+  options: GenerationOptions,
+  rows: SyntheticRow[],
+  attempts: AttemptRecord[],
+  encryption?: DatasetEncryption
+) {
+  const manifest = generation_manifest(body, options, rows, attempts);
+  if (options.publication !== "full-private") {
+    assertNoSourceText(manifest, [
+      ...(typeof body.input_text === "string" ? [body.input_text] : []),
+      ...rows.map((row) => row.original_text),
+    ]);
+  }
+
+  console.log("Uploading generation manifest to Irys...");
+  const manifest_url = await upload_companion(manifest, "Manifest", encryption);
+  return { manifest_url, manifest_hash: contentHash(manifest) };
+}
+
+// Distinct provider/model pairs that actually produced the rows
+function models_used(rows: SyntheticRow[]) {
+  const seen = new Map<string, { provider: string; model: string }>();
+  rows.forEach((row) =>
+    seen.set(`${row.generator.provider}:${row.generator.model}`, row.generator)
+  );
+  return Array.from(seen.values());
+}
+
+const GENERATE_REQUIRED_FIELDS = [
+  "input_text",
+  "sample_size",
+  "domain",
+  "dataset_name",
+  "description",
+  "visibility",
+  "price_usdc",
+  "max_tokens",
+  "output_format",
+  "source_dataset",
+  "ai_model",
+];
+
+// A batch source replaces input_text and determines the sample size
+const BATCH_SOURCE_FIELDS = ["input_text", "sample_size"];
+
+function missing_generate_fields(body: Record<string, any>) {
+  return GENERATE_REQUIRED_FIELDS.filter(
+    (key) =>
+      !(has_batch_source(body) && BATCH_SOURCE_FIELDS.includes(key)) &&
+      !(is_tabular(body) && key === "input_text") &&
+      (body[key] === undefined || body[key] === null || body[key] === "")
+  );
+}
+
+// Serialize published rows in the requested format. Chat examples without
+// a published source are prompted with the template and row fields.
+function serialize_rows(rows: any[], options: GenerationOptions) {
+  return serializeDataset(rows, options.format, {
+    description: options.template.description,
+    schema: options.schema,
+  });
+}
+
+// Upload dataset content; private datasets are encrypted first. Besides the
+// URL, returns the metadata fields describing the content: its hash for the
+// NFT and, when encrypted, the key it was encrypted with
+async function upload_dataset_content(
+  content: string,
+  tags: StorageTag[],
+  visibility: string | undefined,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<{
+  content_url: string;
+  content_hash: string;
+  content_hash_algorithm: DatasetHashAlgorithm;
+  encryption?: DatasetEncryption;
+}> {
+  const content_type =
+    tags.find((tag) => tag.name === "Content-Type")?.value ||
+    "application/octet-stream";
+
+  if (visibility !== "private") {
+    const { algorithm, hash } = hashDatasetContent(content, content_type);
+    return {
+      content_url: await uploadContent(content, tags, onProgress),
+      content_hash: hash,
+      content_hash_algorithm: algorithm,
+    };
+  }
+
+  const { data, encryption } = encryptDataset(content, content_type);
+  const { algorithm, hash } = hashDatasetContent(data, "", "sha256-bytes-v1");
+  const content_url = await uploadContent(
+    data,
+    [
+      ...tags.filter((tag) => tag.name !== "Content-Type"),
+      { name: "Content-Type", value: "application/octet-stream" },
+      { name: "Encryption", value: ENCRYPTION_ALGORITHM },
+    ],
+    onProgress
+  );
+  recordContentUrl(encryption.key_id, content_url, hash);
+  return {
+    content_url,
+    content_hash: hash,
+    content_hash_algorithm: algorithm,
+    encryption,
+  };
+}
+
+// Upload a generated dataset and its metadata to Irys and record it in history
+async function publish_dataset(
+  body: Record<string, any>,
+  options: GenerationOptions,
+  synthetic: SyntheticRow[],
+  stats: GenerationStats,
+  attempts: AttemptRecord[],
+  onUploadProgress?: (progress: UploadProgress) => void
+) {
   const {
     input_text,
-    sample_size,
     domain,
     dataset_name,
     description,
@@ -163,129 +1405,868 @@ app.post("/api/generate", async (req: Request, res: Response) => {
     output_format,
     source_dataset,
     ai_model,
-  } = req.body;
-
-  // Validate required fields
-  const requiredFields = {
+    redaction,
+    parent,
+    version_mode,
+    changelog,
+  } = body;
+
+  // A new version keeps (append) or replaces (regenerate) the parent's rows
+  const parent_rows: any[] = parent ? parent.rows : [];
+  const published = published_schema(body, options.tabular, options.schema);
+
+  const prepared = preparePublication(
+    synthetic,
     input_text,
-    sample_size,
-    domain,
-    dataset_name,
-    description,
+    {
+      name: dataset_name,
+      description: description,
+      sample_size: synthetic.length,
+      domain: domain,
+      model: ai_model,
+      generated_with: models_used(synthetic),
+      template: { id: options.template.id, version: options.template.version },
+      row_schema: published.schema,
+      signing: signDataset(synthetic),
+      privacy_report: privacy_report(synthetic, options, stats),
+      quality_report: quality_report(synthetic, options, stats),
+      diversity: diversity_report(synthetic, options, stats),
+      max_tokens: max_tokens,
+      output_format: output_format,
+      content_format: options.format,
+      content_type: CONTENT_TYPES[options.format],
+      source_dataset: source_dataset,
+      source: body.source,
+      tabular: options.tabular && {
+        columns: published.columns,
+        seed: body.seed,
+      },
+      visibility: visibility,
+      price_usdc:
+        typeof price_usdc === "string" ? parseFloat(price_usdc) : price_usdc,
+      created_at: new Date().toISOString(),
+      redaction: redaction,
+      usage: stats.usage,
+    },
+    options.publication
+  );
+  const rows = parent
+    ? versionRows(version_mode, parent_rows, prepared.rows)
+    : prepared.rows;
+  const publication = {
+    ...prepared,
+    rows,
+    metadata: {
+      ...prepared.metadata,
+      ...(parent
+        ? { sample_size: rows.length, signing: signDataset(rows) }
+        : {}),
+      ...versionMetadata(
+        parent || null,
+        version_mode,
+        changelog,
+        rowDiff(parent_rows, rows)
+      ),
+    },
+  };
+
+  // Upload to Irys
+  console.log("Uploading generated data to Irys...");
+  const dataString = serialize_rows(publication.rows, options);
+
+  const { content_url: contentUrl, ...content } = await upload_dataset_content(
+    dataString,
+    [
+      { name: "Content-Type", value: CONTENT_TYPES[options.format] },
+      { name: "App-Name", value: "SagaSynth" },
+      { name: "Type", value: "Dataset" },
+    ],
     visibility,
-    price_usdc,
-    max_tokens,
-    output_format,
-    source_dataset,
-    ai_model,
+    onUploadProgress
+  );
+
+  const fidelity = await upload_fidelity_report(
+    body,
+    options,
+    synthetic,
+    content.encryption
+  );
+  const manifest = await upload_manifest(
+    body,
+    options,
+    synthetic,
+    attempts,
+    content.encryption
+  );
+  const metadata = {
+    ...publication.metadata,
+    content_url: contentUrl,
+    ...content,
+    ...fidelity,
+    ...manifest,
+  };
+
+  console.log("Uploading metadata to Irys...");
+  const metadataUrl = await getStorage().upload(JSON.stringify(metadata), [
+    { name: "Content-Type", value: "application/json" },
+    { name: "App-Name", value: "SagaSynth" },
+    { name: "Type", value: "Metadata" },
+    ...(metadata.root ? [{ name: "Dataset-Root", value: metadata.root }] : []),
+  ]);
+
+  // Save to history
+  const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
+  history.push({
+    input_text,
+    redaction_id: redaction?.id,
+    data: synthetic,
+    metadata: metadata,
+    usage: stats.usage,
+    created_at: new Date().toISOString(),
+    content_url: contentUrl,
+    metadata_url: metadataUrl,
+  });
+  fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
+
+  return {
+    metadata,
+    irys_links: {
+      content_url: contentUrl,
+      metadata_url: metadataUrl,
+      fidelity_url: fidelity.fidelity_url,
+      manifest_url: manifest.manifest_url,
+    },
+    ready_for_nft: {
+      sourceUrl: publication.source_url,
+      contentHash: content.content_hash,
+      contentLink: contentUrl,
+      tokenURI: metadataUrl,
+      domain: domain,
+      source_dataset: source_dataset,
+    },
+  };
+}
+
+// Main generate endpoint
+app.post("/api/generate", async (req: Request, res: Response) => {
+  const missingFields = missing_generate_fields(req.body);
+
+  if (missingFields.length > 0) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      missing_fields: missingFields,
+    });
+  }
+
+  let body: Record<string, any>;
+  let options: GenerationOptions;
+  try {
+    body = await resolve_parent(
+      redact_request(await resolve_sources(req.body))
+    );
+    options = resolve_generation_options(body);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid generation options",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
+
+  try {
+    const input_data = generation_inputs(body);
+
+    console.log(`Generating ${input_data.length} synthetic data samples...`);
+    const {
+      rows: synthetic,
+      rejected,
+      stats,
+      attempts,
+    } = await generate_synthetic_data(options, input_data);
+
+    if (synthetic.length === 0) {
+      throw new Error("Generation failed, no results.");
+    }
+
+    const published = await publish_dataset(
+      body,
+      options,
+      synthetic,
+      stats,
+      attempts
+    );
+
+    res.json({
+      success: true,
+      message: "Dataset generated successfully",
+      data: synthetic,
+      ...published,
+      generation_stats: stats,
+      rejected_rows: rejected,
+    });
+  } catch (error) {
+    console.error("Generation error:", error);
+    res.status(500).json({
+      error: "Generation failed",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Load a manifest given inline, by URL, or through the dataset's metadata.
+// The manifest is null when it is encrypted.
+async function load_manifest(body: Record<string, any>): Promise<{
+  manifest: GenerationManifest | null;
+  expected_hash: string | null;
+}> {
+  if (body.manifest) {
+    return {
+      manifest: body.manifest,
+      expected_hash: body.manifest_hash || null,
+    };
+  }
+  if (body.manifest_url) {
+    const data = await fetch_companion(body.manifest_url);
+    return { manifest: data, expected_hash: body.manifest_hash || null };
+  }
+  const metadata = await fetchJson(body.metadata_url);
+  if (!metadata?.manifest_url) {
+    throw new Error("No generation manifest for this dataset");
+  }
+  const data = await fetch_companion(metadata.manifest_url);
+  return { manifest: data, expected_hash: metadata.manifest_hash || null };
+}
+
+/**
+ * Re-run the generation a manifest describes, pinned to its template
+ * version, and compare the result with the original run. Source texts are
+ * not in the manifest: text and record sources must be sent again and are
+ * checked against the manifest's source hashes. Nothing is published.
+ */
+app.post("/api/generate/replay", async (req: Request, res: Response) => {
+  if (!req.body.manifest && !req.body.manifest_url && !req.body.metadata_url) {
+    return res.status(400).json({
+      error: "manifest, manifest_url or metadata_url is required",
+    });
+  }
+
+  let original: GenerationManifest | null;
+  let hash_verified: boolean | null;
+  try {
+    const { manifest, expected_hash } = await load_manifest(req.body);
+    original = manifest;
+    hash_verified = expected_hash
+      ? contentHash(manifest) === expected_hash
+      : null;
+  } catch (error) {
+    console.error("Replay error:", error);
+    return res.status(500).json({
+      error: "Failed to load generation manifest",
+      details: (error as Error).message,
+    });
+  }
+  if (!original) {
+    return res.status(403).json(PRIVATE_DATASET);
+  }
+  if (hash_verified === false) {
+    return res.status(400).json({
+      error: "Manifest does not match its recorded hash",
+    });
+  }
+
+  const { input_text, source_records, samples, cache } = req.body;
+  const request: Record<string, any> = {
+    ...original.request,
+    template_id: original.template.id,
+    template_version: original.template.version,
+    ...(cache !== undefined ? { cache } : {}),
+    ...(input_text !== undefined ? { input_text } : {}),
+    ...(source_records !== undefined ? { source_records } : {}),
+    ...(samples !== undefined ? { samples } : {}),
   };
+  const source_type = original.source.type;
+  if (source_type === "text" && !request.input_text) {
+    return res.status(400).json({
+      error: "input_text is required to replay this manifest",
+    });
+  }
+  if (source_type === "records" && !source_records && !samples) {
+    return res.status(400).json({
+      error: "source_records is required to replay this manifest",
+    });
+  }
+
+  let body: Record<string, any>;
+  let options: GenerationOptions;
+  try {
+    body = redact_request(await resolve_sources(request));
+    options = resolve_generation_options(body);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid generation options",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
+
+  const input_data = generation_inputs(body);
+  if (original.source.hashes) {
+    const replay_hashes = new Set(
+      input_data.map((input) => sourceHash(input.text))
+    );
+    const missing = original.source.hashes.filter(
+      (hash) => !replay_hashes.has(hash)
+    );
+    if (missing.length > 0) {
+      return res.status(400).json({
+        error: "Sources do not match the manifest",
+        missing_sources: missing.length,
+      });
+    }
+  }
+
+  try {
+    console.log(`Replaying generation of ${input_data.length} samples...`);
+    const { rows, rejected, stats, attempts } = await generate_synthetic_data(
+      options,
+      input_data
+    );
+    const replay = generation_manifest(body, options, rows, attempts);
+
+    res.json({
+      success: true,
+      hash_verified,
+      comparison: compareManifests(original, replay),
+      manifest: replay,
+      manifest_hash: contentHash(replay),
+      data: rows,
+      generation_stats: stats,
+      rejected_rows: rejected,
+    });
+  } catch (error) {
+    console.error("Replay error:", error);
+    res.status(500).json({
+      error: "Replay failed",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Query strings carry everything as text; restore numbers and JSON fields
+function parse_generate_query(query: Request["query"]) {
+  const body: Record<string, any> = { ...query };
+  [
+    "sample_size",
+    "price_usdc",
+    "max_tokens",
+    "template_version",
+    "concurrency",
+    "requests_per_minute",
+    "max_retries",
+    "failure_budget",
+    "variants_per_row",
+    "seed",
+    "max_total_tokens",
+    "max_cost_usd",
+    "temperature",
+    "min_quality_score",
+  ].forEach((key) => {
+    if (typeof body[key] === "string" && body[key] !== "") {
+      body[key] = Number(body[key]);
+    }
+  });
+  ["response_schema", "source_records", "samples", "columns"].forEach((key) => {
+    if (typeof body[key] === "string") {
+      body[key] = JSON.parse(body[key]);
+    }
+  });
+  // A bare dataset name is also accepted as the HuggingFace reference
+  if (
+    typeof body.huggingface === "string" &&
+    body.huggingface.startsWith("{")
+  ) {
+    body.huggingface = JSON.parse(body.huggingface);
+  }
+  return body;
+}
+
+// Streaming variant of /api/generate over Server-Sent Events
+app.get("/api/generate/stream", async (req: Request, res: Response) => {
+  let body: Record<string, any>;
+  try {
+    body = parse_generate_query(req.query);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid query parameters",
+      details: (error as Error).message,
+    });
+  }
+
+  const missingFields = missing_generate_fields(body);
+
+  if (missingFields.length > 0) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      missing_fields: missingFields,
+    });
+  }
+
+  let options: GenerationOptions;
+  try {
+    body = await resolve_parent(redact_request(await resolve_sources(body)));
+    options = resolve_generation_options(body);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid generation options",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Closing the connection aborts generation and skips the upload
+  let aborted = false;
+  res.on("close", () => {
+    if (!res.writableEnded) aborted = true;
+  });
+
+  try {
+    const input_data = generation_inputs(body);
+
+    send("start", {
+      sample_size: input_data.length,
+      source: body.source,
+      model: `${options.llm.provider.name}:${options.llm.model}`,
+      template: { id: options.template.id, version: options.template.version },
+    });
+
+    let index = 0;
+    const {
+      rows: synthetic,
+      stats,
+      attempts,
+    } = await generate_synthetic_data(options, input_data, {
+      isCancelled: () => aborted,
+      onRow: (row) => send("row", { index: index++, row }),
+      onProgress: (progress) => send("progress", progress),
+    });
+
+    if (aborted) {
+      console.log("Stream closed by client, skipping upload.");
+      return;
+    }
+    if (synthetic.length === 0) {
+      throw new Error("Generation failed, no results.");
+    }
+
+    send("uploading", { rows: synthetic.length });
+    const published = await publish_dataset(
+      body,
+      options,
+      synthetic,
+      stats,
+      attempts,
+      (progress) => send("upload_progress", progress)
+    );
+
+    send("complete", {
+      content_url: published.irys_links.content_url,
+      metadata_url: published.irys_links.metadata_url,
+      metadata: published.metadata,
+      ready_for_nft: published.ready_for_nft,
+      generation_stats: stats,
+    });
+  } catch (error) {
+    console.error("Streaming generation error:", error);
+    send("error", {
+      error: "Generation failed",
+      details: (error as Error).message,
+    });
+  } finally {
+    res.end();
+  }
+});
+
+// --- Generation Jobs ---
+
+// Execute one queued job; resumes from the rows a previous run persisted
+async function run_generation_job(job: GenerationJob) {
+  const body = job.request;
+  const options = resolve_generation_options(body);
+  const rows: SyntheticRow[] = [...job.rows];
+  const attempts: AttemptRecord[] = [...(job.attempts || [])];
+  const previous = { ...job.progress };
+  // Budgets cover the whole job, not each run
+  const spent = previous.usage || emptyUsage();
+  options.budget = remainingBudget(options.budget, spent);
+
+  // Skip the inputs that already have a row from an earlier run
+  const input_data = generation_inputs(body);
+  rows.forEach((row) => {
+    const index = input_data.findIndex(
+      (input) =>
+        input.text === row.original_text &&
+        input.source_id === row.source_id &&
+        input.variant === row.variant
+    );
+    if (index !== -1) input_data.splice(index, 1);
+  });
+
+  console.log(
+    `Job ${job.id}: generating ${input_data.length} of ${previous.total} samples...`
+  );
+  const { stats } = await generate_synthetic_data(options, input_data, {
+    accepted: job.rows,
+    isCancelled: () => isJobCancelled(job.id),
+    onRow: (row) => rows.push(row),
+    // Numbered across runs, so a resumed job keeps one sequence
+    onAttempt: (attempt) =>
+      attempts.push({ ...attempt, attempt: attempts.length }),
+    onProgress: (stats) =>
+      updateJob(job.id, {
+        rows,
+        attempts,
+        progress: {
+          total: previous.total,
+          done: rows.length,
+          failed: previous.failed + stats.failures,
+          retries: previous.retries + stats.retries,
+          usage: sumUsage(spent, stats.usage),
+        },
+      }),
+  });
+
+  if (isJobCancelled(job.id)) {
+    console.log(`Job ${job.id} cancelled.`);
+    return;
+  }
+  if (rows.length === 0) {
+    throw new Error("Generation failed, no results.");
+  }
+
+  updateJob(job.id, { status: "uploading" });
+  const { irys_links, ...result } = await publish_dataset(
+    body,
+    options,
+    rows,
+    { ...stats, usage: sumUsage(spent, stats.usage) },
+    attempts,
+    (upload) => updateJob(job.id, { upload })
+  );
+
+  // A cancel that arrives mid-upload keeps its status but records the links
+  updateJob(job.id, {
+    ...(isJobCancelled(job.id) ? {} : { status: "completed" as const }),
+    irys_links,
+    result,
+  });
+}
+
+// Public view of a job. Attempts are counted by status; the rows and the
+// attempts themselves, prompts included, are only included on request
+function format_job(job: GenerationJob, include_rows = false) {
+  const { rows, request, attempts = [], ...summary } = job;
+  const by_status: Record<string, number> = {};
+  attempts.forEach((attempt) => {
+    by_status[attempt.status] = (by_status[attempt.status] || 0) + 1;
+  });
+  return {
+    ...summary,
+    dataset_name: request.dataset_name,
+    attempts: { total: attempts.length, by_status },
+    ...(include_rows ? { rows, attempt_log: attempts } : {}),
+  };
+}
+
+// Start an asynchronous generation job; takes the same body as /api/generate
+app.post("/api/jobs", async (req: Request, res: Response) => {
+  const missingFields = missing_generate_fields(req.body);
+
+  if (missingFields.length > 0) {
+    return res.status(400).json({
+      error: "Missing required fields",
+      missing_fields: missingFields,
+    });
+  }
+
+  // Jobs are persisted, so only the redacted request is stored
+  let body: Record<string, any>;
+  try {
+    body = await resolve_parent(
+      redact_request(await resolve_sources(req.body))
+    );
+    resolve_generation_options(body);
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid generation options",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
+
+  try {
+    const job = enqueueJob(body, generation_inputs(body).length);
+
+    res.status(202).json({
+      success: true,
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/jobs/${job.id}`,
+      cancel_url: `/api/jobs/${job.id}/cancel`,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to create job",
+      details: (error as Error).message,
+    });
+  }
+});
+
+app.get("/api/jobs", (req: Request, res: Response) => {
+  try {
+    const jobs = listJobs().map((job) => format_job(job));
+    res.json({ total: jobs.length, jobs: jobs.slice(0, 100) });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to list jobs",
+      details: (error as Error).message,
+    });
+  }
+});
+
+app.get("/api/jobs/:id", (req: Request, res: Response) => {
+  try {
+    const job = getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Job ${req.params.id} not found` });
+    }
+
+    res.json(format_job(job, req.query.include_rows === "true"));
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to get job",
+      details: (error as Error).message,
+    });
+  }
+});
 
-  const missingFields = Object.entries(requiredFields)
-    .filter(
-      ([key, value]) => value === undefined || value === null || value === ""
-    )
-    .map(([key]) => key);
+app.post("/api/jobs/:id/cancel", (req: Request, res: Response) => {
+  try {
+    const job = cancelJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Job ${req.params.id} not found` });
+    }
+    if (job.status !== "cancelled") {
+      return res
+        .status(409)
+        .json({ error: `Job is already ${job.status}`, job: format_job(job) });
+    }
 
-  if (missingFields.length > 0) {
-    return res.status(400).json({
-      error: "Missing required fields",
-      missing_fields: missingFields,
+    res.json({ success: true, job: format_job(job) });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to cancel job",
+      details: (error as Error).message,
     });
   }
+});
 
-  try {
-    // Create sample_size variations of the input text
-    const input_data = Array(sample_size).fill({ text: input_text });
+// Options for one experiment variant: its template and settings override
+// the request's, and custom instructions replace the template's
+function resolve_variant_options(
+  body: Record<string, any>,
+  variant: ExperimentVariant
+): GenerationOptions {
+  const { name, instructions, input_label, ...settings } = variant;
+  const options = resolve_generation_options({ ...body, ...settings });
+  return {
+    ...options,
+    template: {
+      ...options.template,
+      ...(instructions ? { instructions } : {}),
+      ...(input_label ? { input_label } : {}),
+    },
+  };
+}
 
-    console.log(`Generating ${sample_size} synthetic data samples...`);
-    const synthetic = await generate_synthetic_data(model, input_data);
+// Run one variant and score it on validation, leakage, diversity and latency
+async function run_experiment_variant(
+  variant: ExperimentVariant,
+  options: GenerationOptions,
+  input_text: string,
+  sample_size: number
+): Promise<VariantResult> {
+  const template = {
+    id: options.template.id,
+    version: options.template.version,
+  };
+  const { rows, rejected, stats } = await generate_synthetic_data(
+    options,
+    Array(sample_size).fill({ text: input_text })
+  );
 
-    if (synthetic.length === 0) {
-      throw new Error("Generation failed, no results.");
-    }
+  const validated = [...rows, ...rejected].filter(
+    (row) => row.verification_status === "verified"
+  );
+  const leakage = validated.map((row) => row.privacy?.score ?? 0);
+  const scores = variantScore({
+    validation_pass_rate:
+      stats.attempts > 0
+        ? Number((validated.length / stats.attempts).toFixed(4))
+        : 0,
+    leakage_mean:
+      leakage.length > 0
+        ? Number(
+            (leakage.reduce((sum, v) => sum + v, 0) / leakage.length).toFixed(4)
+          )
+        : 0,
+    leakage_rejected: stats.leakage_rejected,
+    diversity_score: diversity_report(rows, options, stats).diversity_score,
+    latency_ms:
+      stats.usage.requests > 0
+        ? Math.round(stats.model_time_ms / stats.usage.requests)
+        : 0,
+  });
 
-    // Upload to Irys
-    console.log("Uploading generated data to Irys...");
-    const dataString = JSON.stringify(synthetic);
+  return {
+    name: variant.name,
+    variant,
+    template,
+    scores,
+    samples: rows,
+    rejected,
+    stats,
+  };
+}
 
-    const contentUrl = await uploadFromData(dataString, [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Dataset" },
-    ]);
+const MAX_EXPERIMENT_SAMPLES = 10;
 
-    const metadata = {
-      name: dataset_name,
-      description: description,
-      content_url: contentUrl,
-      sample_size: synthetic.length,
-      domain: domain,
-      model: ai_model,
-      max_tokens: max_tokens,
-      output_format: output_format,
-      source_dataset: source_dataset,
-      visibility: visibility,
-      price_usdc:
-        typeof price_usdc === "string" ? parseFloat(price_usdc) : price_usdc,
-      created_at: new Date().toISOString(),
-      input_text: input_text,
-    };
+/**
+ * Experiment mode of /api/test-prompt: run every variant on the same input,
+ * score them side by side and save the experiment so the winner can be
+ * promoted.
+ */
+async function run_prompt_experiment(req: Request, res: Response) {
+  const { domain } = req.body;
+  const sample_size = Number(req.body.sample_size ?? 3);
 
-    console.log("Uploading metadata to Irys...");
-    const metadataUrl = await uploadFromData(JSON.stringify(metadata), [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Metadata" },
-    ]);
+  let body: Record<string, any>;
+  let variants: { variant: ExperimentVariant; options: GenerationOptions }[];
+  try {
+    if (
+      !Number.isInteger(sample_size) ||
+      sample_size < 1 ||
+      sample_size > MAX_EXPERIMENT_SAMPLES
+    ) {
+      throw new Error(
+        `sample_size must be between 1 and ${MAX_EXPERIMENT_SAMPLES}`
+      );
+    }
+    body = redact_request(req.body);
+    variants = normalizeVariants(body.variants).map((variant) => ({
+      variant,
+      options: resolve_variant_options(body, variant),
+    }));
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid experiment",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
 
-    // Save to history
-    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
-    history.push({
-      input_text,
-      data: synthetic,
-      metadata: metadata,
-      created_at: new Date().toISOString(),
-      content_url: contentUrl,
-      metadata_url: metadataUrl,
+  try {
+    // One variant at a time so latencies are comparable
+    const results: VariantResult[] = [];
+    for (const { variant, options } of variants) {
+      console.log(`Experiment variant ${variant.name}...`);
+      try {
+        results.push(
+          await run_experiment_variant(
+            variant,
+            options,
+            body.input_text,
+            sample_size
+          )
+        );
+      } catch (error) {
+        results.push({
+          name: variant.name,
+          variant,
+          template: {
+            id: options.template.id,
+            version: options.template.version,
+          },
+          scores: variantScore({
+            validation_pass_rate: 0,
+            leakage_mean: 0,
+            leakage_rejected: 0,
+            diversity_score: 0,
+            latency_ms: 0,
+          }),
+          samples: [],
+          rejected: [],
+          stats: {},
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const experiment = saveExperiment({
+      domain,
+      input_text: body.input_text,
+      sample_size,
+      results,
+      winner: pickWinner(results),
     });
-    fs.writeFileSync(HISTORY_FILE, JSON.stringify(history));
 
     res.json({
       success: true,
-      message: "Dataset generated successfully",
-      data: synthetic,
-      metadata: metadata,
-      irys_links: {
-        content_url: contentUrl,
-        metadata_url: metadataUrl,
-      },
-      ready_for_nft: {
-        sourceUrl: input_text,
-        contentLink: contentUrl,
-        tokenURI: metadataUrl,
-        domain: domain,
-        source_dataset: source_dataset,
-      },
+      message: "Prompt experiment completed",
+      experiment_id: experiment.id,
+      winner: experiment.winner,
+      comparison: results.map((result) => ({
+        name: result.name,
+        template: result.template,
+        ...result.scores,
+        ...(result.error ? { error: result.error } : {}),
+      })),
+      results,
+      redaction: body.redaction,
+      promote_url: `/api/experiments/${experiment.id}/promote`,
     });
   } catch (error) {
-    console.error("Generation error:", error);
+    console.error("Prompt experiment error:", error);
     res.status(500).json({
-      error: "Generation failed",
+      error: "Prompt experiment failed",
       details: (error as Error).message,
     });
   }
-});
+}
 
 // Test Your Prompt endpoint - only requires input_text and domain
 app.post("/api/test-prompt", async (req: Request, res: Response) => {
-  const { input_text, domain } = req.body;
+  const { domain, ai_model = DEFAULT_AI_MODEL } = req.body;
 
-  if (!input_text || !domain) {
+  if (!req.body.input_text || !domain) {
     return res
       .status(400)
       .json({ error: "input_text and domain are required" });
   }
 
+  if (req.body.variants) {
+    return run_prompt_experiment(req, res);
+  }
+
   // Fixed parameters for testing
   const sample_size = 3;
   const dataset_name = "Test Dataset";
@@ -295,14 +2276,37 @@ app.post("/api/test-prompt", async (req: Request, res: Response) => {
   const max_tokens = 3000;
   const output_format = "Structured JSON";
   const source_dataset = "galileo-ai/medical_transcription_40";
-  const ai_model = "gemini-2.5-flash";
+
+  let body: Record<string, any>;
+  let options: GenerationOptions;
+  try {
+    body = redact_request(req.body);
+    options = resolve_generation_options({
+      ...body,
+      ai_model,
+      domain,
+      max_tokens,
+    });
+  } catch (error) {
+    return res.status(400).json({
+      error: "Invalid generation options",
+      details: (error as Error).message,
+      available_providers: listProviders(),
+    });
+  }
 
   try {
+    const { input_text, redaction } = body;
+
     // Create sample_size variations of the input text
     const input_data = Array(sample_size).fill({ text: input_text });
 
     console.log(`Testing prompt with ${sample_size} synthetic data samples...`);
-    const synthetic = await generate_synthetic_data(model, input_data);
+    const {
+      rows: synthetic,
+      rejected,
+      stats,
+    } = await generate_synthetic_data(options, input_data);
 
     if (synthetic.length === 0) {
       throw new Error("Generation failed, no results.");
@@ -322,9 +2326,18 @@ app.post("/api/test-prompt", async (req: Request, res: Response) => {
         output_format,
         source_dataset,
         ai_model,
+        template: {
+          id: options.template.id,
+          version: options.template.version,
+        },
+        row_schema: options.schema,
       },
+      generated_with: models_used(synthetic),
+      generation_stats: stats,
       data: synthetic,
+      rejected_rows: rejected,
       input_text: input_text,
+      redaction,
     });
   } catch (error) {
     console.error("Prompt test error:", error);
@@ -336,9 +2349,10 @@ app.post("/api/test-prompt", async (req: Request, res: Response) => {
 });
 
 app.post("/api/generate/test", async (req: Request, res: Response) => {
-  const { input_text, domain = "medical" } = req.body;
-
   try {
+    const body = redact_request(req.body);
+    const { input_text, redaction, domain = "medical" } = body;
+
     // Create 3 variations of the input text
     const test_data = [
       { text: input_text },
@@ -346,28 +2360,78 @@ app.post("/api/generate/test", async (req: Request, res: Response) => {
       { text: input_text },
     ];
 
-    const synthetic = await generate_synthetic_data(model, test_data);
+    const options = resolve_generation_options({ ...body, domain });
+    const {
+      rows: synthetic,
+      stats,
+      attempts,
+    } = await generate_synthetic_data(options, test_data);
     if (synthetic.length === 0) {
       throw new Error("Generation failed, no results.");
     }
 
+    // The source text is never part of the public name or description
+    const publication = preparePublication(
+      synthetic,
+      input_text,
+      {
+        name: `Synthetic ${domain} Dataset`,
+        description: `A synthetic ${domain} dataset generated from a private input`,
+        domain: domain,
+        generated_with: models_used(synthetic),
+        template: {
+          id: options.template.id,
+          version: options.template.version,
+        },
+        row_schema: options.schema,
+        signing: signDataset(synthetic),
+        privacy_report: privacy_report(synthetic, options, stats),
+        quality_report: quality_report(synthetic, options, stats),
+        diversity: diversity_report(synthetic, options, stats),
+        content_format: options.format,
+        content_type: CONTENT_TYPES[options.format],
+        redaction,
+        usage: stats.usage,
+        created_at: new Date().toISOString(),
+      },
+      options.publication
+    );
+
     // --- Irys Upload Logic ---
     console.log("Uploading generated data to Irys...");
-    const contentUrl = await uploadFromData(JSON.stringify(synthetic), [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "Saga-AI-Generator" },
-    ]);
+    const { content_url: contentUrl, ...content } =
+      await upload_dataset_content(
+        serialize_rows(publication.rows, options),
+        [
+          { name: "Content-Type", value: CONTENT_TYPES[options.format] },
+          { name: "App-Name", value: "Saga-AI-Generator" },
+        ],
+        body.visibility
+      );
 
+    const fidelity = await upload_fidelity_report(
+      body,
+      options,
+      synthetic,
+      content.encryption
+    );
+    const manifest = await upload_manifest(
+      body,
+      options,
+      synthetic,
+      attempts,
+      content.encryption
+    );
     const metadata = {
-      name: `Synthetic Dataset for: ${input_text.substring(0, 30)}...`,
-      description: `A synthetic dataset generated based on the input: "${input_text}"`,
+      ...publication.metadata,
       content_url: contentUrl,
-      domain: domain,
-      created_at: new Date().toISOString(),
+      ...content,
+      ...fidelity,
+      ...manifest,
     };
 
     console.log("Uploading metadata to Irys...");
-    const metadataUrl = await uploadFromData(JSON.stringify(metadata), [
+    const metadataUrl = await getStorage().upload(JSON.stringify(metadata), [
       { name: "Content-Type", value: "application/json" },
       { name: "App-Name", value: "Saga-AI-Generator-Metadata" },
     ]);
@@ -377,8 +2441,10 @@ app.post("/api/generate/test", async (req: Request, res: Response) => {
     const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
     history.push({
       input_text,
+      redaction_id: redaction?.id,
       domain,
       data: synthetic,
+      usage: stats.usage,
       created_at: new Date().toISOString(),
       content_url: contentUrl,
       metadata_url: metadataUrl,
@@ -388,10 +2454,14 @@ app.post("/api/generate/test", async (req: Request, res: Response) => {
     res.json({
       message: "Test generation and Irys upload successful",
       input_text,
+      redaction,
       data: synthetic,
+      generation_stats: stats,
       irys_links: {
         content_url: contentUrl,
         metadata_url: metadataUrl,
+        fidelity_url: fidelity.fidelity_url,
+        manifest_url: manifest.manifest_url,
       },
     });
   } catch (error) {
@@ -399,6 +2469,142 @@ app.post("/api/generate/test", async (req: Request, res: Response) => {
   }
 });
 
+// List the prompt templates available for generation
+app.get("/api/templates", (req: Request, res: Response) => {
+  try {
+    const templates = listTemplates();
+    res.json({
+      total: templates.length,
+      templates,
+      domain_defaults: getDomainDefaults(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to list templates",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Hit/miss counters and size of the model response cache
+app.get("/api/cache", (req: Request, res: Response) => {
+  try {
+    res.json(cacheStats());
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to read cache stats",
+      details: (error as Error).message,
+    });
+  }
+});
+
+app.delete("/api/cache", (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, removed: clearCache() });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to clear cache",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Saved prompt experiments, newest first; samples only on the detail route
+app.get("/api/experiments", (req: Request, res: Response) => {
+  const experiments = listExperiments().map(({ results, ...summary }) => ({
+    ...summary,
+    comparison: results.map((result) => ({
+      name: result.name,
+      template: result.template,
+      ...result.scores,
+    })),
+  }));
+  res.json({ total: experiments.length, experiments });
+});
+
+app.get("/api/experiments/:id", (req: Request, res: Response) => {
+  const experiment = getExperiment(req.params.id);
+  if (!experiment) {
+    return res.status(404).json({ error: "Experiment not found" });
+  }
+  res.json(experiment);
+});
+
+/**
+ * Make a variant (the winner unless `variant` names another) the default
+ * template for the experiment's domain. Variants with custom instructions
+ * are saved as a template first: a new version of their template when it
+ * already serves the domain, otherwise a `<template>-<domain>` template so
+ * the template's other domains keep their prompt.
+ */
+app.post("/api/experiments/:id/promote", (req: Request, res: Response) => {
+  try {
+    const experiment = getExperiment(req.params.id);
+    if (!experiment) {
+      return res.status(404).json({ error: "Experiment not found" });
+    }
+
+    const name = req.body?.variant || experiment.winner;
+    const result = experiment.results.find((r) => r.name === name);
+    if (!result) {
+      return res.status(400).json({
+        error: name ? `Unknown variant "${name}"` : "Experiment has no winner",
+        variants: experiment.results.map((r) => r.name),
+      });
+    }
+    if (result.error) {
+      return res
+        .status(400)
+        .json({ error: `Variant "${name}" failed`, details: result.error });
+    }
+
+    let reference: TemplateReference = {
+      template_id: result.template.id,
+      template_version: result.template.version,
+    };
+    const { instructions, input_label } = result.variant;
+    if (instructions || input_label) {
+      const { version, ...base } = getTemplate(
+        result.template.id,
+        result.template.version
+      );
+      const domain = experiment.domain.toLowerCase();
+      const serves_domain = base.id === domain || base.domains.includes(domain);
+      const saved = saveTemplateVersion({
+        ...base,
+        ...(serves_domain
+          ? {}
+          : {
+              id: `${base.id}-${domain.replace(/[^a-z0-9]+/g, "-")}`,
+              domains: [domain],
+            }),
+        instructions: instructions || base.instructions,
+        input_label: input_label || base.input_label,
+      });
+      reference = { template_id: saved.id, template_version: saved.version };
+    }
+
+    setDomainDefault(experiment.domain, reference);
+    markPromoted(experiment.id, {
+      variant: result.name,
+      ...reference,
+      at: new Date().toISOString(),
+    });
+
+    res.json({
+      success: true,
+      domain: experiment.domain,
+      variant: result.name,
+      template: reference,
+    });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to promote variant",
+      details: (error as Error).message,
+    });
+  }
+});
+
 app.get("/api/generate/history", (req: Request, res: Response) => {
   try {
     const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
@@ -471,6 +2677,52 @@ const getContract = async () => {
   return { contract, wallet };
 };
 
+// Mint a dataset token from the server wallet. The key of an encrypted
+// dataset is bound to the token here, and nowhere else.
+const mint_dataset = async (prepared: {
+  sourceUrl: string;
+  contentHash: string;
+  contentLink: string;
+  embedVectorId: string;
+  createdAt: number;
+  tags: string[];
+  tokenURI: string;
+}) => {
+  const key = findDatasetKey(prepared.contentLink);
+  if (key) {
+    assertKeyMintable(key, prepared.contentHash);
+  }
+
+  const { contract, wallet } = await getContract();
+  const tx = await contract.mintMetadataNFT(
+    prepared.sourceUrl,
+    prepared.contentHash,
+    prepared.contentLink,
+    prepared.embedVectorId,
+    prepared.createdAt,
+    prepared.tags,
+    prepared.tokenURI
+  );
+  const receipt = await tx.wait();
+
+  // Get token ID from event
+  const event = receipt.logs.find(
+    (log: any) => log.fragment && log.fragment.name === "MetadataMinted"
+  );
+  const tokenId: string | null = event ? event.args[0].toString() : null;
+
+  if (key) {
+    if (!tokenId) {
+      throw new Error(
+        `Minted ${tx.hash} without a MetadataMinted event; dataset key left unbound`
+      );
+    }
+    bindDatasetKey(key.key_id, tokenId, prepared.contentHash, wallet.address);
+  }
+
+  return { tokenId, tx, receipt };
+};
+
 // 1. Upload dataset to Irys and prepare for NFT minting
 app.post("/api/dataset/upload", async (req: Request, res: Response) => {
   try {
@@ -487,20 +2739,19 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       { name: "Type", value: "Dataset" },
     ];
 
-    const dataUrl = await uploadFromData(JSON.stringify(data), dataTags);
-
-    // Create content hash
-    const crypto = await import("crypto");
-    const contentHash = crypto
-      .createHash("sha256")
-      .update(JSON.stringify(data))
-      .digest("hex");
+    const { content_url: dataUrl, ...content } = await upload_dataset_content(
+      JSON.stringify(data),
+      dataTags,
+      metadata.visibility
+    );
+    const contentHash = content.content_hash;
 
     // Upload metadata to Irys
     const metadataWithLinks = {
       ...metadata,
       dataUrl,
       contentHash,
+      ...content,
       createdAt: new Date().toISOString(),
     };
 
@@ -510,7 +2761,7 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       { name: "Type", value: "Metadata" },
     ];
 
-    const metadataUrl = await uploadFromData(
+    const metadataUrl = await getStorage().upload(
       JSON.stringify(metadataWithLinks),
       metadataTags
     );
@@ -524,7 +2775,7 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       message: "Dataset uploaded and NFT minted successfully",
       dataUrl,
       metadataUrl,
-      contentHash: "0x" + contentHash,
+      contentHash,
       nft: {
         tokenId: tokenId,
         transactionHash: "mock_tx_hash",
@@ -534,7 +2785,7 @@ app.post("/api/dataset/upload", async (req: Request, res: Response) => {
       },
       prepared: {
         sourceUrl: metadata.sourceUrl || "SagaSynth Generated",
-        contentHash: "0x" + contentHash,
+        contentHash,
         contentLink: dataUrl,
         embedVectorId: "vector_" + Date.now(),
         createdAt: Math.floor(Date.now() / 1000),
@@ -570,26 +2821,28 @@ app.post("/api/nft/mint", async (req: Request, res: Response) => {
       });
     }
 
-    const { contract } = await getContract();
+    // An encrypted dataset takes one token, committing to its ciphertext
+    const key = findDatasetKey(contentLink);
+    if (key) {
+      try {
+        assertKeyMintable(key, contentHash);
+      } catch (error) {
+        return res.status(409).json({
+          error: "Cannot mint a token for this encrypted dataset",
+          details: (error as Error).message,
+        });
+      }
+    }
 
-    const tx = await contract.mintMetadataNFT(
-      sourceUrl || "SagaSynth Dataset",
+    const { tokenId, tx, receipt } = await mint_dataset({
+      sourceUrl: sourceUrl || "SagaSynth Dataset",
       contentHash,
       contentLink,
-      embedVectorId || "vector_" + Date.now(),
-      createdAt || Math.floor(Date.now() / 1000),
-      tags || ["synthetic"],
-      tokenURI
-    );
-
-    const receipt = await tx.wait();
-
-    // Get token ID from event
-    const event = receipt.logs.find(
-      (log: any) => log.fragment && log.fragment.name === "MetadataMinted"
-    );
-
-    const tokenId = event ? event.args[0].toString() : null;
+      embedVectorId: embedVectorId || "vector_" + Date.now(),
+      createdAt: createdAt || Math.floor(Date.now() / 1000),
+      tags: tags || ["synthetic"],
+      tokenURI,
+    });
 
     res.json({
       success: true,
@@ -607,28 +2860,118 @@ app.post("/api/nft/mint", async (req: Request, res: Response) => {
   }
 });
 
-// 3. Get NFT metadata
-app.get("/api/nft/:tokenId", async (req: Request, res: Response) => {
-  try {
-    const { tokenId } = req.params;
-    const { contract } = await getContract();
+// 3. Get NFT metadata
+app.get("/api/nft/:tokenId", async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const { contract } = await getContract();
+
+    const metadata = await contract.getMetadata(tokenId);
+
+    res.json({
+      tokenId,
+      sourceUrl: metadata.source_url,
+      contentHash: metadata.content_hash,
+      contentLink: metadata.content_link,
+      embedVectorId: metadata.embed_vector_id,
+      createdAt: Number(metadata.created_at),
+      tags: metadata.tags,
+      owner: metadata.owner,
+    });
+  } catch (error) {
+    console.error("Get metadata error:", error);
+    res.status(500).json({
+      error: "Failed to get metadata",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 3.1. Check the dataset at content_link against the on-chain content hash
+app.get("/api/nft/:tokenId/verify", async (req: Request, res: Response) => {
+  try {
+    const { tokenId } = req.params;
+    const { contract } = await getContract();
+
+    let onchain;
+    try {
+      onchain = await contract.getMetadata(tokenId);
+    } catch (error) {
+      return res.status(404).json({ error: `Token ${tokenId} does not exist` });
+    }
+    const report = {
+      tokenId,
+      contentLink: onchain.content_link,
+      onchainHash: onchain.content_hash,
+    };
+
+    // The algorithm is tagged in the token metadata; without the tag the
+    // canonical algorithm is assumed for readable content
+    let tagged: string | undefined;
+    try {
+      const metadata = await fetchJson(await contract.tokenURI(tokenId));
+      tagged = metadata?.content_hash_algorithm;
+    } catch (error) {
+      console.log(`Could not fetch metadata for token ${tokenId}`);
+    }
+
+    let content;
+    try {
+      content = await fetchContent(onchain.content_link);
+    } catch (error) {
+      return res.json({
+        ...report,
+        status: "unreachable",
+        details: (error as Error).message,
+      });
+    }
 
-    const metadata = await contract.getMetadata(tokenId);
+    let algorithm: DatasetHashAlgorithm;
+    try {
+      algorithm = tagged
+        ? resolveDatasetHashAlgorithm(tagged)
+        : isEncrypted(content.data)
+        ? "sha256-bytes-v1"
+        : resolveDatasetHashAlgorithm();
+    } catch (error) {
+      // Tagged with an algorithm this server does not implement
+      return res.json({
+        ...report,
+        algorithm: tagged,
+        status: "unsupported algorithm",
+        details: (error as Error).message,
+      });
+    }
+    let computedHash: string;
+    try {
+      computedHash = hashDatasetContent(
+        content.data,
+        content.content_type,
+        algorithm
+      ).hash;
+    } catch (error) {
+      // Content that cannot be read as a dataset cannot match
+      return res.json({
+        ...report,
+        algorithm,
+        status: "mismatch",
+        details: (error as Error).message,
+      });
+    }
 
     res.json({
-      tokenId,
-      sourceUrl: metadata.source_url,
-      contentHash: metadata.content_hash,
-      contentLink: metadata.content_link,
-      embedVectorId: metadata.embed_vector_id,
-      createdAt: Number(metadata.created_at),
-      tags: metadata.tags,
-      owner: metadata.owner,
+      ...report,
+      algorithm,
+      computedHash,
+      chunked: content.chunked,
+      status: sameHash(computedHash, onchain.content_hash)
+        ? "match"
+        : "mismatch",
     });
   } catch (error) {
-    console.error("Get metadata error:", error);
+    console.error("Verify content hash error:", error);
     res.status(500).json({
-      error: "Failed to get metadata",
+      error: "Failed to verify content hash",
       details: (error as Error).message,
     });
   }
@@ -719,8 +3062,7 @@ app.post("/api/nft/:tokenId/donate", async (req: Request, res: Response) => {
     // Fetch additional metadata from tokenURI
     let additionalMetadata = null;
     try {
-      const response = await axios.get(tokenURI, { timeout: 5000 });
-      additionalMetadata = response.data;
+      additionalMetadata = await fetchJson(tokenURI);
     } catch (error) {
       console.log(`Could not fetch additional metadata for token ${tokenId}`);
     }
@@ -812,8 +3154,7 @@ app.get(
       // Fetch additional metadata from tokenURI
       let additionalMetadata = null;
       try {
-        const response = await axios.get(tokenURI, { timeout: 5000 });
-        additionalMetadata = response.data;
+        additionalMetadata = await fetchJson(tokenURI);
       } catch (error) {
         console.log(`Could not fetch additional metadata for token ${tokenId}`);
       }
@@ -887,10 +3228,7 @@ app.get("/api/marketplace/nfts", async (req: Request, res: Response) => {
         try {
           const tokenURI = await contract.tokenURI(id);
           if (tokenURI) {
-            const response = await fetch(tokenURI);
-            if (response.ok) {
-              metadataContent = await response.json();
-            }
+            metadataContent = await fetchJson(tokenURI);
           }
         } catch (e) {
           console.log("Could not fetch metadata content:", e);
@@ -923,7 +3261,59 @@ app.get("/api/marketplace/nfts", async (req: Request, res: Response) => {
   }
 });
 
-// 7. Get dataset preview from Irys
+// Configured storage backend and the price of storing `bytes`
+app.get("/api/storage/price", async (req: Request, res: Response) => {
+  const bytes = Number(req.query.bytes);
+  if (!Number.isInteger(bytes) || bytes < 0) {
+    return res
+      .status(400)
+      .json({ error: "bytes must be a non-negative integer" });
+  }
+
+  try {
+    const storage = getStorage();
+    res.json({ backend: storage.name, ...(await storage.price(bytes)) });
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to get storage price",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Objects of the local content-addressed store
+app.get("/api/storage/:id", (req: Request, res: Response) => {
+  try {
+    const object = readLocalObject(req.params.id);
+    if (!object) {
+      return res.status(404).json({ error: "Local storage is not enabled" });
+    }
+    res.setHeader("Content-Type", object.content_type);
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.send(object.data);
+  } catch (error) {
+    res.status(404).json({
+      error: "Object not found",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 7. Get dataset preview
+// Download a dataset in any supported format and read it back into rows
+// Rows of published content, or null when it is encrypted. Given the row
+// schema, CSV values are converted back to their types.
+async function fetch_dataset_rows(url: string, row_schema?: JsonSchema) {
+  const { text, content_type } = await fetchContent(url);
+  if (isEncrypted(text)) {
+    return null;
+  }
+  const rows = parseDataset(text, content_type);
+  return row_schema && content_type.includes("csv")
+    ? typedRows(rows, row_schema)
+    : rows;
+}
+
 app.get("/api/dataset/preview", async (req: Request, res: Response) => {
   try {
     const { url } = req.query;
@@ -932,13 +3322,11 @@ app.get("/api/dataset/preview", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "URL parameter is required" });
     }
 
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from ${url}`);
+    const data = await fetch_dataset_rows(url);
+    if (data === null) {
+      return res.status(403).json(PRIVATE_DATASET);
     }
 
-    const data = await response.json();
-
     // Return first 5 rows for preview
     const preview = Array.isArray(data) ? data.slice(0, 5) : data;
 
@@ -956,23 +3344,341 @@ app.get("/api/dataset/preview", async (req: Request, res: Response) => {
   }
 });
 
+// Convert an uploaded dataset into another format
+app.get("/api/dataset/export", async (req: Request, res: Response) => {
+  try {
+    const { url, format, system, instruction } = req.query;
+
+    if (!url || typeof url !== "string") {
+      return res.status(400).json({ error: "URL parameter is required" });
+    }
+
+    let target: DatasetFormat;
+    try {
+      target = resolveFormat(typeof format === "string" ? format : undefined);
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid format",
+        details: (error as Error).message,
+      });
+    }
+
+    const rows = await fetch_dataset_rows(url);
+    if (rows === null) {
+      return res.status(403).json(PRIVATE_DATASET);
+    }
+    const content = serializeDataset(rows, target, {
+      system: typeof system === "string" ? system : undefined,
+      instruction: typeof instruction === "string" ? instruction : undefined,
+    });
+
+    res.setHeader("Content-Type", CONTENT_TYPES[target]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="dataset.${FILE_EXTENSIONS[target]}"`
+    );
+    res.send(content);
+  } catch (error) {
+    console.error("Export error:", error);
+    res.status(500).json({
+      error: "Failed to export dataset",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// Fidelity report of a dataset, found through its metadata
+app.get("/api/dataset/fidelity", async (req: Request, res: Response) => {
+  try {
+    const { metadata_url } = req.query;
+
+    if (!metadata_url || typeof metadata_url !== "string") {
+      return res
+        .status(400)
+        .json({ error: "metadata_url parameter is required" });
+    }
+
+    const metadata = await fetchJson(metadata_url);
+    if (!metadata?.fidelity_url) {
+      return res
+        .status(404)
+        .json({ error: "No fidelity report for this dataset" });
+    }
+
+    const report = await fetch_companion(metadata.fidelity_url);
+    if (report === null) {
+      return res.status(403).json(PRIVATE_DATASET);
+    }
+    res.json({
+      metadata_url,
+      fidelity_url: metadata.fidelity_url,
+      report,
+    });
+  } catch (error) {
+    console.error("Fidelity error:", error);
+    res.status(500).json({
+      error: "Failed to get fidelity report",
+      details: (error as Error).message,
+    });
+  }
+});
+
+function version_summary(metadata_url: string, metadata: Record<string, any>) {
+  const changelog = metadata.changelog || [];
+  return {
+    version: metadata.version || 1,
+    metadata_url,
+    content_url: metadata.content_url,
+    parent: metadata.parent || null,
+    sample_size: metadata.sample_size,
+    change: changelog[changelog.length - 1] || null,
+    diff: metadata.diff || null,
+    created_at: metadata.created_at,
+  };
+}
+
+// Lineage of a dataset, oldest first: the root and every version recorded
+// in the history or tagged with the root in storage. `root` may be a token
+// id or the metadata URL of any version.
+app.get("/api/dataset/versions", async (req: Request, res: Response) => {
+  try {
+    const { root } = req.query;
+
+    if (!root || typeof root !== "string") {
+      return res.status(400).json({ error: "root parameter is required" });
+    }
+
+    let uri = root;
+    if (/^\d+$/.test(root)) {
+      const { contract } = await getContract();
+      uri = await contract.tokenURI(root);
+    }
+    const metadata = await fetchJson(uri);
+    const root_url: string = metadata?.root || uri;
+
+    const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
+    const versions = history
+      .filter(
+        (entry: any) =>
+          entry.metadata_url === root_url || entry.metadata?.root === root_url
+      )
+      .map((entry: any) => version_summary(entry.metadata_url, entry.metadata));
+
+    // Versions published by other servers are found by their root tag
+    const known = new Set(versions.map((v: any) => v.metadata_url));
+    try {
+      const tagged = await getStorage().query([
+        { name: "App-Name", value: "SagaSynth" },
+        { name: "Dataset-Root", value: root_url },
+      ]);
+      for (const entry of tagged.filter((e) => !known.has(e.url))) {
+        versions.push(version_summary(entry.url, await fetchJson(entry.url)));
+        known.add(entry.url);
+      }
+    } catch (error) {
+      console.log("Could not query storage for versions:", error);
+    }
+
+    // The root may have been published elsewhere
+    if (!known.has(root_url)) {
+      const root_metadata =
+        root_url === uri ? metadata : await fetchJson(root_url);
+      versions.push(version_summary(root_url, root_metadata));
+    }
+    versions.sort((a: any, b: any) => a.version - b.version);
+
+    res.json({ root: root_url, total: versions.length, versions });
+  } catch (error) {
+    console.error("Dataset versions error:", error);
+    res.status(500).json({
+      error: "Failed to list dataset versions",
+      details: (error as Error).message,
+    });
+  }
+});
+
+// 7.1. Verify generator signatures of a downloaded dataset
+app.post(
+  "/api/dataset/verify-signatures",
+  async (req: Request, res: Response) => {
+    try {
+      const { data, content_url, metadata_url, token_id } = req.body;
+      const generator = getGeneratorSigner()?.address || null;
+
+      // The expected signer comes from the token's on-chain metadata, or is
+      // this server's generator key. Metadata sent by the caller only
+      // supplies the content and the dataset signature.
+      let metadata: Record<string, any> | null = null;
+      let signer: string | null;
+      if (token_id !== undefined) {
+        const { contract } = await getContract();
+        metadata = await fetchJson(await contract.tokenURI(token_id));
+        signer = metadata?.signing?.signer || null;
+        if (!signer) {
+          return res
+            .status(400)
+            .json({ error: "Dataset metadata has no generator signature" });
+        }
+      } else {
+        metadata =
+          req.body.metadata ||
+          (metadata_url ? await fetchJson(metadata_url) : null);
+        signer = generator;
+        if (!signer) {
+          return res.status(400).json({
+            error: "token_id is required when this server has no generator key",
+          });
+        }
+      }
+
+      // Chat examples keep neither the outputs nor the signatures
+      if (metadata?.content_format === "chat-jsonl") {
+        return res.status(400).json({
+          error:
+            "Datasets published as chat-jsonl carry no row signatures and cannot be verified",
+        });
+      }
+
+      let rows = data;
+      if (!rows) {
+        const url = content_url || metadata?.content_url;
+        if (!url) {
+          return res
+            .status(400)
+            .json({ error: "data or content_url is required" });
+        }
+        rows = await fetch_dataset_rows(url, metadata?.row_schema);
+        if (rows === null) {
+          return res.status(403).json(PRIVATE_DATASET);
+        }
+      }
+
+      if (!Array.isArray(rows)) {
+        return res.status(400).json({ error: "Dataset must be an array" });
+      }
+
+      const report = verifyDatasetSignatures(
+        rows,
+        signer,
+        metadata?.signing?.signature
+      );
+
+      res.json({
+        success: true,
+        ...report,
+        signer_source: token_id !== undefined ? "token" : "generator",
+        generator_key:
+          !!generator && generator.toLowerCase() === signer.toLowerCase(),
+      });
+    } catch (error) {
+      console.error("Signature verification error:", error);
+      res.status(500).json({
+        error: "Signature verification failed",
+        details: (error as Error).message,
+      });
+    }
+  }
+);
+
+// 7.2. Release the data key of an encrypted dataset to its owner or a
+// licensee, an address approved for the token or for all of the owner's
+// tokens
+app.post("/api/dataset/:tokenId/key", async (req: Request, res: Response) => {
+  const { tokenId } = req.params;
+  const { signature, timestamp } = req.body;
+
+  if (!signature || timestamp === undefined) {
+    return res.status(400).json({
+      error: "signature and timestamp are required",
+      message: keyRequestMessage(tokenId, Date.now()),
+    });
+  }
+
+  let address: string;
+  try {
+    address = verifyKeyRequest(tokenId, Number(timestamp), signature);
+  } catch (error) {
+    return res.status(401).json({
+      error: "Invalid key request",
+      details: (error as Error).message,
+    });
+  }
+
+  try {
+    const { contract } = await getContract();
+
+    let owner: string;
+    try {
+      owner = await contract.ownerOf(tokenId);
+    } catch (error) {
+      return res.status(404).json({ error: `Token ${tokenId} does not exist` });
+    }
+
+    const same = (a: string) => a.toLowerCase() === address.toLowerCase();
+    const role = same(owner)
+      ? "owner"
+      : same(await contract.getApproved(tokenId)) ||
+        (await contract.isApprovedForAll(owner, address))
+      ? "licensee"
+      : null;
+    if (!role) {
+      return res.status(403).json({
+        error: "Signer is neither the owner nor a licensee of the token",
+        address,
+      });
+    }
+
+    const minted = await contract.getMetadata(tokenId);
+    const content_link: string = minted.content_link;
+    const key = findDatasetKey(content_link);
+    if (!key) {
+      return res.status(404).json({
+        error: `Token ${tokenId} has no encrypted dataset on this server`,
+      });
+    }
+    try {
+      assertKeyReleasable(key, tokenId, {
+        content_hash: minted.content_hash,
+        content_link,
+        owner: minted.owner,
+      });
+    } catch (error) {
+      return res.status(403).json({
+        error: "Dataset key is not released for this token",
+        details: (error as Error).message,
+      });
+    }
+
+    res.json({
+      success: true,
+      token_id: tokenId,
+      address,
+      role,
+      content_url: content_link,
+      key_id: key.key_id,
+      algorithm: ENCRYPTION_ALGORITHM,
+      key: unwrapDatasetKey(key).toString("base64"),
+    });
+  } catch (error) {
+    console.error("Key release error:", error);
+    res.status(500).json({
+      error: "Failed to release dataset key",
+      details: (error as Error).message,
+    });
+  }
+});
+
 //Fetch data from huggingface
 app.post("/api/fetch-dataset", async (req: Request, res: Response) => {
   const { sample_size = 5, dataset = "galileo-ai/medical_transcription_40" } =
     req.body;
 
   try {
-    const response = await axios.get(
-      `https://datasets-server.huggingface.co/rows?dataset=${encodeURIComponent(
-        dataset
-      )}&config=default&split=train&offset=0&limit=${sample_size}`
-    );
-
-    const rows = response.data.rows.map((row: any) => ({
-      id: row.id,
-      text: row.row.text,
-      label: row.row.label || null,
-    }));
+    // The samples can be passed back to /api/generate as `samples`
+    const rows = await fetchHuggingFaceRows({
+      dataset,
+      limit: Number(sample_size),
+    });
 
     res.json({ samples: rows });
   } catch (error) {
@@ -987,8 +3693,23 @@ app.post("/api/fetch-dataset", async (req: Request, res: Response) => {
 // Combined generate + mint endpoint
 app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
   try {
+    if (!req.body.input_text) {
+      return res.status(400).json({ error: "input_text is required" });
+    }
+
+    let body: Record<string, any>;
+    try {
+      body = redact_request(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid redaction options",
+        details: (error as Error).message,
+      });
+    }
+
     const {
       input_text,
+      redaction,
       sample_size = 3,
       dataset_name = "Generated Dataset",
       description = "Synthetic dataset",
@@ -1000,56 +3721,108 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
       output_format = "Structured JSON",
       source_dataset = "galileo-ai/medical_transcription_40",
       ai_model = "gemini-2.0-flash",
-    } = req.body;
+    } = body;
 
-    if (!input_text) {
-      return res.status(400).json({ error: "input_text is required" });
+    let options: GenerationOptions;
+    try {
+      options = resolve_generation_options({
+        ...body,
+        ai_model,
+        domain,
+        max_tokens,
+      });
+    } catch (error) {
+      return res.status(400).json({
+        error: "Invalid generation options",
+        details: (error as Error).message,
+        available_providers: listProviders(),
+      });
     }
 
     // Step 1: Generate data
     console.log(`Generating ${sample_size} synthetic data samples...`);
     const input_data = Array(sample_size).fill({ text: input_text });
-    const synthetic = await generate_synthetic_data(model, input_data);
+    const {
+      rows: synthetic,
+      stats,
+      attempts,
+    } = await generate_synthetic_data(options, input_data);
 
     if (synthetic.length === 0) {
       throw new Error("Generation failed, no results.");
     }
 
+    const publication = preparePublication(
+      synthetic,
+      input_text,
+      {
+        name: dataset_name,
+        description: description,
+        sample_size: synthetic.length,
+        tags: tags,
+        created_at: new Date().toISOString(),
+        domain: domain,
+        visibility: visibility,
+        price_usdc: price_usdc,
+        max_tokens: max_tokens,
+        output_format: output_format,
+        source_dataset: source_dataset,
+        ai_model: ai_model,
+        generated_with: models_used(synthetic),
+        template: {
+          id: options.template.id,
+          version: options.template.version,
+        },
+        row_schema: options.schema,
+        signing: signDataset(synthetic),
+        privacy_report: privacy_report(synthetic, options, stats),
+        quality_report: quality_report(synthetic, options, stats),
+        diversity: diversity_report(synthetic, options, stats),
+        content_format: options.format,
+        content_type: CONTENT_TYPES[options.format],
+        redaction,
+        usage: stats.usage,
+      },
+      options.publication
+    );
+
     // Step 2: Upload to Irys
     console.log("Uploading to Irys...");
-    const contentUrl = await uploadFromData(JSON.stringify(synthetic), [
-      { name: "Content-Type", value: "application/json" },
-      { name: "App-Name", value: "SagaSynth" },
-      { name: "Type", value: "Dataset" },
-    ]);
+    const { content_url: contentUrl, ...content } =
+      await upload_dataset_content(
+        serialize_rows(publication.rows, options),
+        [
+          { name: "Content-Type", value: CONTENT_TYPES[options.format] },
+          { name: "App-Name", value: "SagaSynth" },
+          { name: "Type", value: "Dataset" },
+        ],
+        visibility
+      );
 
-    // Create content hash
-    const crypto = await import("crypto");
-    const contentHash =
-      "0x" +
-      crypto
-        .createHash("sha256")
-        .update(JSON.stringify(synthetic))
-        .digest("hex");
+    const contentHash = content.content_hash;
 
+    const fidelity = await upload_fidelity_report(
+      body,
+      options,
+      synthetic,
+      content.encryption
+    );
+    const manifest = await upload_manifest(
+      body,
+      options,
+      synthetic,
+      attempts,
+      content.encryption
+    );
     const metadata = {
-      name: dataset_name,
-      description: description,
+      ...publication.metadata,
       content_url: contentUrl,
-      sample_size: synthetic.length,
-      tags: tags,
-      created_at: new Date().toISOString(),
-      input_text: input_text,
-      domain: domain,
-      visibility: visibility,
-      price_usdc: price_usdc,
-      max_tokens: max_tokens,
-      output_format: output_format,
-      source_dataset: source_dataset,
-      ai_model: ai_model,
+      ...content,
+      ...fidelity,
+      ...manifest,
     };
 
-    const metadataUrl = await uploadFromData(JSON.stringify(metadata), [
+    const metadataUrl = await getStorage().upload(JSON.stringify(metadata), [
       { name: "Content-Type", value: "application/json" },
       { name: "App-Name", value: "SagaSynth" },
       { name: "Type", value: "Metadata" },
@@ -1060,7 +3833,7 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
     // const { contract } = await getContract();
 
     // const tx = await contract.mintMetadataNFT(
-    //   input_text,
+    //   publication.source_url,
     //   contentHash,
     //   contentUrl,
     //   "vector_" + Date.now(),
@@ -1079,8 +3852,10 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
     const history = JSON.parse(fs.readFileSync(HISTORY_FILE, "utf-8"));
     history.push({
       input_text,
+      redaction_id: redaction?.id,
       data: synthetic,
       metadata: metadata,
+      usage: stats.usage,
       created_at: new Date().toISOString(),
       content_url: contentUrl,
       metadata_url: metadataUrl,
@@ -1094,9 +3869,12 @@ app.post("/api/generate-and-mint", async (req: Request, res: Response) => {
       message: "Dataset generated and NFT minted successfully",
       data: synthetic,
       metadata: metadata,
+      generation_stats: stats,
       irys_links: {
         content_url: contentUrl,
         metadata_url: metadataUrl,
+        fidelity_url: fidelity.fidelity_url,
+        manifest_url: manifest.manifest_url,
       },
     });
   } catch (error) {
@@ -1116,12 +3894,7 @@ app.post("/api/test-upload", async (req: Request, res: Response) => {
     // Mock upload response for testing
     const mockContentUrl = "https://gateway.irys.xyz/mock-content-id";
     const mockMetadataUrl = "https://gateway.irys.xyz/mock-metadata-id";
-    const mockContentHash =
-      "0x" +
-      require("crypto")
-        .createHash("sha256")
-        .update(JSON.stringify(data))
-        .digest("hex");
+    const mockContentHash = hashDatasetContent(JSON.stringify(data)).hash;
 
     res.json({
       success: true,
@@ -1712,7 +4485,13 @@ app.post(
   }
 );
 
-const PORT = 3001;
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
+// Only serve when run directly, so tests can drive the app in process
+if (require.main === module) {
+  const PORT = 3001;
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    startJobWorker(run_generation_job);
+  });
+}
+
+export default app;
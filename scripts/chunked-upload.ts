@@ -0,0 +1,216 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { withRetry } from "./rate-limit";
+import { StorageTag, getStorage } from "./storage";
+
+// Large datasets are uploaded as a series of chunks plus a manifest listing
+// them; the manifest URL stands in for the dataset. Uploaded chunks are
+// recorded locally so an interrupted upload resumes where it stopped.
+
+const UPLOADS_FILE = path.resolve(__dirname, "../uploads.json");
+
+export const CHUNK_MANIFEST_TYPE = "sagasynth-chunked-dataset";
+
+const DEFAULT_CHUNK_SIZE_MB = 5;
+
+export interface ChunkRecord {
+  index: number;
+  url: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface ChunkManifest {
+  type: typeof CHUNK_MANIFEST_TYPE;
+  version: number;
+  content_type: string;
+  total_bytes: number;
+  sha256: string;
+  chunk_size: number;
+  chunks: ChunkRecord[];
+}
+
+export interface UploadProgress {
+  chunks_done: number;
+  chunks_total: number;
+  bytes_done: number;
+  bytes_total: number;
+  // True when the chunk was already uploaded by an earlier attempt
+  resumed: boolean;
+}
+
+// An upload in progress, or finished with its manifest URL
+interface UploadState {
+  key: string;
+  chunks: ChunkRecord[];
+  manifest_url: string | null;
+  updated_at: string;
+}
+
+function readUploads(): UploadState[] {
+  if (!fs.existsSync(UPLOADS_FILE)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(UPLOADS_FILE, "utf-8"));
+}
+
+function saveUpload(state: UploadState) {
+  const uploads = readUploads().filter((upload) => upload.key !== state.key);
+  const tmp = `${UPLOADS_FILE}.tmp`;
+  fs.writeFileSync(
+    tmp,
+    JSON.stringify([
+      ...uploads,
+      { ...state, updated_at: new Date().toISOString() },
+    ])
+  );
+  fs.renameSync(tmp, UPLOADS_FILE);
+}
+
+export function chunkSize() {
+  const mb = Number(process.env.UPLOAD_CHUNK_SIZE_MB) || DEFAULT_CHUNK_SIZE_MB;
+  return Math.max(1, Math.floor(mb * 1024 * 1024));
+}
+
+const sha256 = (data: Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+/**
+ * Upload dataset content. Content up to the chunk size is uploaded as is;
+ * larger content is split into chunks and the manifest URL is returned.
+ * Either way the URL can be read back with `fetchContent`.
+ */
+export async function uploadContent(
+  data: Buffer | string,
+  tags: StorageTag[],
+  onProgress?: (progress: UploadProgress) => void
+): Promise<string> {
+  const storage = getStorage();
+  const buffer = typeof data === "string" ? Buffer.from(data) : data;
+  const size = chunkSize();
+  if (buffer.length <= size) {
+    const url = await storage.upload(buffer, tags);
+    onProgress?.({
+      chunks_done: 1,
+      chunks_total: 1,
+      bytes_done: buffer.length,
+      bytes_total: buffer.length,
+      resumed: false,
+    });
+    return url;
+  }
+
+  const hash = sha256(buffer);
+  const key = `${storage.name}:${hash}:${size}`;
+  const state: UploadState = readUploads().find(
+    (upload) => upload.key === key
+  ) || { key, chunks: [], manifest_url: null, updated_at: "" };
+  if (state.manifest_url) {
+    console.log(`Content ${hash} was already uploaded`);
+    return state.manifest_url;
+  }
+
+  const content_type =
+    tags.find((tag) => tag.name.toLowerCase() === "content-type")?.value ||
+    "application/octet-stream";
+  const total = Math.ceil(buffer.length / size);
+  let bytes_done = 0;
+
+  for (let index = 0; index < total; index++) {
+    const chunk = buffer.subarray(index * size, (index + 1) * size);
+    bytes_done += chunk.length;
+    const done = state.chunks.find((c) => c.index === index);
+    if (!done) {
+      const url = await withRetry(
+        () =>
+          storage.upload(chunk, [
+            { name: "Content-Type", value: "application/octet-stream" },
+            { name: "App-Name", value: "SagaSynth" },
+            { name: "Type", value: "Chunk" },
+            { name: "Content-SHA256", value: hash },
+            { name: "Chunk-Index", value: String(index) },
+          ]),
+        { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 15000 }
+      );
+      state.chunks.push({
+        index,
+        url,
+        bytes: chunk.length,
+        sha256: sha256(chunk),
+      });
+      saveUpload(state);
+    }
+    console.log(`Uploaded chunk ${index + 1}/${total}`);
+    onProgress?.({
+      chunks_done: index + 1,
+      chunks_total: total,
+      bytes_done,
+      bytes_total: buffer.length,
+      resumed: !!done,
+    });
+  }
+
+  const manifest: ChunkManifest = {
+    type: CHUNK_MANIFEST_TYPE,
+    version: 1,
+    content_type,
+    total_bytes: buffer.length,
+    sha256: hash,
+    chunk_size: size,
+    chunks: [...state.chunks].sort((a, b) => a.index - b.index),
+  };
+  const manifest_url = await storage.upload(JSON.stringify(manifest), [
+    ...tags.filter((tag) => tag.name.toLowerCase() !== "content-type"),
+    { name: "Content-Type", value: "application/json" },
+    { name: "Chunked", value: "true" },
+  ]);
+  saveUpload({ ...state, manifest_url });
+  return manifest_url;
+}
+
+function isChunkManifest(text: string) {
+  if (!text.includes(CHUNK_MANIFEST_TYPE)) return null;
+  try {
+    const value = JSON.parse(text);
+    return value?.type === CHUNK_MANIFEST_TYPE
+      ? (value as ChunkManifest)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read content uploaded with `uploadContent`, reassembling chunked content
+ * and checking every chunk against its hash. Returns the raw bytes and
+ * their text.
+ */
+export async function fetchContent(url: string) {
+  const fetched = await getStorage().fetch(url);
+  const text = fetched.data.toString("utf-8");
+  const manifest = isChunkManifest(text);
+  if (!manifest) {
+    return { ...fetched, text, chunked: false };
+  }
+
+  const chunks: Buffer[] = [];
+  for (const chunk of manifest.chunks) {
+    // Raw bytes: a chunk boundary can split a multi-byte character
+    const { data } = await getStorage().fetch(chunk.url);
+    if (sha256(data) !== chunk.sha256) {
+      throw new Error(`Chunk ${chunk.index} does not match its hash`);
+    }
+    chunks.push(data);
+  }
+  const data = Buffer.concat(chunks);
+  if (sha256(data) !== manifest.sha256) {
+    throw new Error("Reassembled dataset does not match its hash");
+  }
+  return {
+    data,
+    text: data.toString("utf-8"),
+    content_type: manifest.content_type,
+    chunked: true,
+  };
+}
@@ -0,0 +1,319 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { sameHash } from "./dataset-hash";
+
+dotenv.config();
+
+// Private datasets are encrypted with AES-256-GCM under a fresh data key
+// before upload. The data key is wrapped with DATASET_MASTER_KEY and kept in
+// a local store. It is bound to the token this server mints for the content
+// and only released to the owner or a licensee of that token.
+
+const KEYS_FILE = path.resolve(__dirname, "../dataset-keys.json");
+
+export const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+
+// Encrypted content starts with this marker, then the IV, tag and ciphertext
+export const ENCRYPTED_MAGIC = "SAGAENC1";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Key requests must be signed within this window
+export const KEY_REQUEST_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface DatasetEncryption {
+  algorithm: typeof ENCRYPTION_ALGORITHM;
+  key_id: string;
+  // Content type of the plaintext
+  content_type: string;
+}
+
+export interface DatasetKey {
+  key_id: string;
+  // Data key encrypted under the master key, as iv | tag | ciphertext
+  wrapped_key: string;
+  // SHA-256 of the plaintext, so a failed upload retries with the same key
+  content_sha256: string;
+  content_url: string | null;
+  // Content hash of the uploaded ciphertext, as minted on-chain
+  content_hash?: string | null;
+  // Token the key is released for and the wallet that minted it, set when
+  // this server mints the token
+  token_id: string | null;
+  creator?: string | null;
+  created_at: string;
+}
+
+// On-chain record of a token (CrawlMetadata), as far as keys depend on it
+export interface MintedDataset {
+  content_hash: string;
+  content_link: string;
+  owner: string;
+}
+
+function masterKey() {
+  const hex = process.env.DATASET_MASTER_KEY || "";
+  if (!/^(0x)?[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(
+      "DATASET_MASTER_KEY must be set to 32 bytes of hex to publish private datasets"
+    );
+  }
+  return Buffer.from(hex.replace(/^0x/, ""), "hex");
+}
+
+function seal(
+  key: Buffer,
+  plaintext: Buffer,
+  iv = crypto.randomBytes(IV_BYTES)
+) {
+  const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer) {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+// Marker, then a seal whose IV is derived from the key and the plaintext.
+// The IV comes from a key of its own, so the data key is only ever used by
+// the cipher.
+function sealContent(key: Buffer, plaintext: Buffer) {
+  const ivKey = Buffer.from(crypto.hkdfSync("sha256", key, "", "iv", 32));
+  const iv = crypto
+    .createHmac("sha256", ivKey)
+    .update(plaintext)
+    .digest()
+    .subarray(0, IV_BYTES);
+  return Buffer.concat([
+    Buffer.from(ENCRYPTED_MAGIC),
+    seal(key, plaintext, iv),
+  ]);
+}
+
+function readKeys(): DatasetKey[] {
+  if (!fs.existsSync(KEYS_FILE)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(KEYS_FILE, "utf-8"));
+}
+
+function writeKeys(keys: DatasetKey[]) {
+  const tmp = `${KEYS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(keys));
+  fs.renameSync(tmp, KEYS_FILE);
+}
+
+/**
+ * Encrypt dataset content under a new data key. The wrapped key is stored
+ * right away; `recordContentUrl` links it to the upload afterwards.
+ *
+ * The IV is derived from the key and the plaintext, and a key whose upload
+ * never finished is reused for the same content. The retry then produces
+ * the same ciphertext, so a chunked upload resumes instead of restarting.
+ */
+export function encryptDataset(data: Buffer | string, content_type: string) {
+  const wrapping = masterKey();
+  const plaintext = typeof data === "string" ? Buffer.from(data) : data;
+  const content_sha256 = crypto
+    .createHash("sha256")
+    .update(plaintext)
+    .digest("hex");
+
+  let entry = readKeys().find(
+    (key) => key.content_sha256 === content_sha256 && key.content_url === null
+  );
+  if (!entry) {
+    entry = {
+      key_id: crypto.randomBytes(16).toString("hex"),
+      wrapped_key: seal(wrapping, crypto.randomBytes(32)).toString("base64"),
+      content_sha256,
+      content_url: null,
+      token_id: null,
+      created_at: new Date().toISOString(),
+    };
+    writeKeys([...readKeys(), entry]);
+  }
+  const encryption: DatasetEncryption = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    key_id: entry.key_id,
+    content_type,
+  };
+  return {
+    data: sealContent(unwrapDatasetKey(entry), plaintext),
+    encryption,
+  };
+}
+
+/**
+ * Encrypt a file that accompanies an encrypted dataset, such as its
+ * manifest or fidelity report, under the dataset's key. The key holder
+ * decrypts it like the dataset itself.
+ */
+export function encryptWithDatasetKey(
+  key_id: string,
+  data: Buffer | string,
+  content_type: string
+) {
+  const entry = readKeys().find((key) => key.key_id === key_id);
+  if (!entry) {
+    throw new Error(`No dataset key ${key_id}`);
+  }
+  const encryption: DatasetEncryption = {
+    algorithm: ENCRYPTION_ALGORITHM,
+    key_id,
+    content_type,
+  };
+  return {
+    data: sealContent(
+      unwrapDatasetKey(entry),
+      typeof data === "string" ? Buffer.from(data) : data
+    ),
+    encryption,
+  };
+}
+
+export function isEncrypted(data: Buffer | string) {
+  return typeof data === "string"
+    ? data.startsWith(ENCRYPTED_MAGIC)
+    : data.subarray(0, ENCRYPTED_MAGIC.length).toString() === ENCRYPTED_MAGIC;
+}
+
+// Decrypt content with a data key released by the key route
+export function decryptDataset(data: Buffer, key: Buffer | string) {
+  if (!isEncrypted(data)) {
+    throw new Error("Content is not an encrypted dataset");
+  }
+  return open(
+    typeof key === "string" ? Buffer.from(key, "base64") : key,
+    data.subarray(ENCRYPTED_MAGIC.length)
+  );
+}
+
+export function recordContentUrl(
+  key_id: string,
+  content_url: string,
+  content_hash: string
+) {
+  const keys = readKeys();
+  const entry = keys.find((key) => key.key_id === key_id);
+  if (!entry) {
+    throw new Error(`No dataset key ${key_id}`);
+  }
+  entry.content_url = content_url;
+  entry.content_hash = content_hash;
+  writeKeys(keys);
+}
+
+export function findDatasetKey(content_url: string): DatasetKey | null {
+  return readKeys().find((key) => key.content_url === content_url) || null;
+}
+
+/**
+ * Check, before minting, that a token for encrypted content can take its
+ * key: the key is not bound yet and the token commits to the ciphertext
+ * that was uploaded.
+ */
+export function assertKeyMintable(entry: DatasetKey, content_hash: string) {
+  if (entry.token_id !== null) {
+    throw new Error(`Dataset key is bound to token ${entry.token_id}`);
+  }
+  if (!entry.content_hash || !sameHash(entry.content_hash, content_hash)) {
+    throw new Error("contentHash does not match the encrypted dataset");
+  }
+}
+
+/**
+ * Tie a key to the token this server minted for its content, and to the
+ * wallet that minted it. Only the server's own mint path binds keys; a
+ * token minted elsewhere never gets one.
+ */
+export function bindDatasetKey(
+  key_id: string,
+  token_id: string,
+  content_hash: string,
+  creator: string
+) {
+  const keys = readKeys();
+  const entry = keys.find((key) => key.key_id === key_id);
+  if (!entry) {
+    throw new Error(`No dataset key ${key_id}`);
+  }
+  assertKeyMintable(entry, content_hash);
+  entry.token_id = token_id;
+  entry.creator = creator;
+  writeKeys(keys);
+  return entry;
+}
+
+/**
+ * Check a token's on-chain record against the key before releasing it. The
+ * key must be bound to this token, and the token must still commit to the
+ * same ciphertext and creator that were recorded when it was minted.
+ */
+export function assertKeyReleasable(
+  entry: DatasetKey,
+  token_id: string,
+  minted: MintedDataset
+) {
+  if (entry.token_id === null) {
+    throw new Error("Dataset key is not bound to a token yet");
+  }
+  if (entry.token_id !== String(token_id)) {
+    throw new Error(`Dataset key is bound to token ${entry.token_id}`);
+  }
+  if (
+    !entry.content_hash ||
+    !sameHash(entry.content_hash, minted.content_hash)
+  ) {
+    throw new Error("Token content_hash does not match the encrypted dataset");
+  }
+  if (
+    !entry.creator ||
+    entry.creator.toLowerCase() !== minted.owner.toLowerCase()
+  ) {
+    throw new Error("Token was not minted by the wallet the key is bound to");
+  }
+}
+
+export function unwrapDatasetKey(entry: DatasetKey) {
+  return open(masterKey(), Buffer.from(entry.wrapped_key, "base64"));
+}
+
+// The message a wallet signs to request the key of a token
+export function keyRequestMessage(token_id: string, timestamp: number) {
+  return `SagaSynth dataset key request\nToken: ${token_id}\nTimestamp: ${timestamp}`;
+}
+
+/**
+ * Recover the wallet that signed a key request, rejecting stale or future
+ * timestamps so a leaked signature cannot be replayed later.
+ */
+export function verifyKeyRequest(
+  token_id: string,
+  timestamp: number,
+  signature: string,
+  now = Date.now()
+) {
+  if (!Number.isFinite(timestamp)) {
+    throw new Error("timestamp must be milliseconds since the epoch");
+  }
+  if (Math.abs(now - timestamp) > KEY_REQUEST_MAX_AGE_MS) {
+    throw new Error("Key request has expired, sign a new one");
+  }
+  return ethers.verifyMessage(
+    keyRequestMessage(token_id, timestamp),
+    signature
+  );
+}
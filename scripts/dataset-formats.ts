@@ -0,0 +1,353 @@
+import { JsonSchema, coerceToSchema } from "./json-schema";
+
+// Serializers for the file formats a dataset can be uploaded and exported in.
+
+export type DatasetFormat =
+  | "json"
+  | "jsonl"
+  | "csv"
+  | "flat-json"
+  | "chat-jsonl";
+
+export const DATASET_FORMATS: DatasetFormat[] = [
+  "json",
+  "jsonl",
+  "csv",
+  "flat-json",
+  "chat-jsonl",
+];
+
+// Content written by flattenRow is marked in its content type, so only
+// keys this module flattened are nested again when it is read back
+const FLATTENED = "flattened=true";
+
+export const CONTENT_TYPES: Record<DatasetFormat, string> = {
+  json: "application/json",
+  jsonl: "application/x-ndjson",
+  csv: `text/csv; ${FLATTENED}`,
+  "flat-json": `application/json; ${FLATTENED}`,
+  "chat-jsonl": "application/x-ndjson",
+};
+
+export const FILE_EXTENSIONS: Record<DatasetFormat, string> = {
+  json: "json",
+  jsonl: "jsonl",
+  csv: "csv",
+  "flat-json": "json",
+  "chat-jsonl": "jsonl",
+};
+
+// Names clients already send as output_format, normalized to lower case
+// without spaces, dashes or underscores
+const FORMAT_ALIASES: Record<string, DatasetFormat> = {
+  json: "json",
+  structuredjson: "json",
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+  jsonlines: "jsonl",
+  csv: "csv",
+  flatjson: "flat-json",
+  flattenedjson: "flat-json",
+  chat: "chat-jsonl",
+  chatjsonl: "chat-jsonl",
+  openaichat: "chat-jsonl",
+  openaichatjsonl: "chat-jsonl",
+  finetuning: "chat-jsonl",
+};
+
+export function resolveFormat(output_format?: string): DatasetFormat {
+  if (!output_format) return "json";
+  const format =
+    FORMAT_ALIASES[output_format.toLowerCase().replace(/[\s_-]+/g, "")];
+  if (!format) {
+    throw new Error(
+      `Unsupported format "${output_format}". Supported: ${DATASET_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+  return format;
+}
+
+// Dots and backslashes inside a key are escaped, so a key such as
+// `dose.mg` is not split into two levels
+const escapeKey = (key: string) => key.replace(/[\\.]/g, "\\$&");
+
+function splitKey(key: string) {
+  const parts = [""];
+  for (let i = 0; i < key.length; i++) {
+    if (key[i] === "\\" && i + 1 < key.length) {
+      parts[parts.length - 1] += key[++i];
+    } else if (key[i] === ".") {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += key[i];
+    }
+  }
+  return parts;
+}
+
+/**
+ * Flatten nested objects and arrays into dotted keys, e.g.
+ * `synthetic_output.age` or `violations.0.path`. Empty objects and arrays
+ * are kept as JSON so they survive a round trip.
+ */
+export function flattenRow(
+  value: any,
+  prefix = "",
+  out: Record<string, any> = {}
+) {
+  const isContainer = value !== null && typeof value === "object";
+  if (!isContainer || Object.keys(value).length === 0) {
+    if (prefix) {
+      out[prefix] = isContainer ? JSON.stringify(value) : value;
+    }
+    return out;
+  }
+  Object.keys(value).forEach((key) =>
+    flattenRow(
+      value[key],
+      prefix ? `${prefix}.${escapeKey(key)}` : escapeKey(key),
+      out
+    )
+  );
+  return out;
+}
+
+export function unflattenRow(flat: Record<string, any>) {
+  const root: any = {};
+  Object.keys(flat).forEach((key) => {
+    const parts = splitKey(key);
+    let node = root;
+    parts.forEach((part, i) => {
+      if (i === parts.length - 1) {
+        const value = flat[key];
+        node[part] = value === "[]" ? [] : value === "{}" ? {} : value;
+        return;
+      }
+      if (node[part] === null || typeof node[part] !== "object") {
+        node[part] = /^\d+$/.test(parts[i + 1]) ? [] : {};
+      }
+      node = node[part];
+    });
+  });
+  return root;
+}
+
+function csvCell(value: any) {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: any[]) {
+  const flat = rows.map((row) => flattenRow(row));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  flat.forEach((row) =>
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    })
+  );
+  return [
+    columns.map(csvCell).join(","),
+    ...flat.map((row) => columns.map((key) => csvCell(row[key])).join(",")),
+  ].join("\r\n");
+}
+
+// RFC 4180 parser; quoted cells may contain commas, quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  return records;
+}
+
+export interface ChatOptions {
+  // Optional system message placed before every example
+  system?: string;
+  // User turn for rows that carry no source text
+  instruction?: string;
+  // What the rows are, e.g. the template description
+  description?: string;
+  // Row schema the instruction lists the fields of
+  schema?: JsonSchema;
+}
+
+/**
+ * The user turn of rows whose source was not published, built from what
+ * the rows contain so examples still teach which record to produce.
+ */
+export function chatInstruction(options: ChatOptions, output: any = {}) {
+  if (options.instruction) return options.instruction;
+  const fields = Object.keys(options.schema?.properties || output);
+  const subject = options.description
+    ? `Generate a synthetic record: ${options.description.replace(/\.$/, "")}.`
+    : "Generate a synthetic record.";
+  return fields.length > 0
+    ? `${subject} Fields: ${fields.join(", ")}.`
+    : subject;
+}
+
+/**
+ * One OpenAI fine-tuning example per row: the source text (or an
+ * instruction describing the record when the source was not published) as
+ * the user turn and the synthetic output as the assistant turn.
+ */
+function toChatExample(row: any, options: ChatOptions) {
+  const output = row.synthetic_output ?? row;
+  const values = Object.values(output);
+  const assistant =
+    values.length === 1 && typeof values[0] === "string"
+      ? (values[0] as string)
+      : JSON.stringify(output);
+
+  return {
+    messages: [
+      ...(options.system ? [{ role: "system", content: options.system }] : []),
+      {
+        role: "user",
+        content: row.original_text || chatInstruction(options, output),
+      },
+      { role: "assistant", content: assistant },
+    ],
+  };
+}
+
+export function serializeDataset(
+  rows: any[],
+  format: DatasetFormat,
+  chat: ChatOptions = {}
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows);
+    case "jsonl":
+      return rows.map((row) => JSON.stringify(row)).join("\n");
+    case "csv":
+      return toCsv(rows);
+    case "flat-json":
+      return JSON.stringify(rows.map((row) => flattenRow(row)));
+    case "chat-jsonl":
+      return rows
+        .map((row) => JSON.stringify(toChatExample(row, chat)))
+        .join("\n");
+  }
+}
+
+/**
+ * Read dataset content back into rows, whatever format it was uploaded in.
+ * Keys are nested again only when the content type marks them as
+ * flattened by this module; other dotted keys are left alone. CSV values
+ * stay strings and empty cells are treated as missing.
+ */
+export function parseDataset(content: string, contentType = ""): any[] {
+  const text = content.trim();
+  if (text === "") return [];
+  const nest = (row: Record<string, any>) =>
+    contentType.includes(FLATTENED) ? unflattenRow(row) : row;
+
+  if (contentType.includes("csv") || !/^[[{]/.test(text)) {
+    const [header, ...records] = parseCsv(text);
+    return records.map((record) =>
+      nest(
+        Object.fromEntries(
+          header
+            .map((key, i) => [key, record[i] ?? ""])
+            .filter(([, value]) => value !== "")
+        )
+      )
+    );
+  }
+
+  if (text.startsWith("[")) {
+    const rows = JSON.parse(text);
+    return rows.map((row: any) =>
+      row && typeof row === "object" && !Array.isArray(row) ? nest(row) : row
+    );
+  }
+
+  // One JSON value per line
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line));
+}
+
+// Typed fields of a published row besides synthetic_output, whose shape the
+// row schema gives
+const ROW_FIELDS: JsonSchema = {
+  variant: { type: "integer" },
+  usage: { type: "object", additionalProperties: { type: "number" } },
+  privacy: {
+    type: "object",
+    properties: {
+      ngram_overlap: { type: "number" },
+      longest_common_run: { type: "integer" },
+      longest_common_ratio: { type: "number" },
+      score: { type: "number" },
+    },
+  },
+  quality: {
+    type: "object",
+    properties: {
+      criteria: { type: "object", additionalProperties: { type: "number" } },
+      score: { type: "number" },
+    },
+  },
+  duplicate_of: {
+    type: "object",
+    properties: {
+      index: { type: "integer" },
+      similarity: { type: "number" },
+    },
+  },
+};
+
+/**
+ * Restore the types of rows read back from CSV, where every value is a
+ * string, from the row envelope and the row schema. Hashes and signatures
+ * over the rows match again afterwards.
+ */
+export function typedRows(rows: any[], row_schema?: JsonSchema) {
+  const schema = {
+    type: "object",
+    properties: { ...ROW_FIELDS, synthetic_output: row_schema },
+  };
+  return rows.map((row) => coerceToSchema(row, schema));
+}
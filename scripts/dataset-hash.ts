@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import { parseDataset } from "./dataset-formats";
+
+// The content hash minted on-chain (CrawlMetadata.content_hash), as 0x-prefixed
+// bytes32. The algorithm is recorded next to it in the metadata:
+//
+// - sha256-canonical-json-v1: the content is read back into rows with
+//   parseDataset and the rows are hashed as canonical JSON, so the hash
+//   does not depend on whitespace or key order.
+// - sha256-bytes-v1: the stored bytes, for encrypted datasets whose rows
+//   cannot be read without the key.
+
+export type DatasetHashAlgorithm =
+  | "sha256-canonical-json-v1"
+  | "sha256-bytes-v1";
+
+export const DATASET_HASH_ALGORITHMS: DatasetHashAlgorithm[] = [
+  "sha256-canonical-json-v1",
+  "sha256-bytes-v1",
+];
+
+export const DEFAULT_DATASET_HASH_ALGORITHM: DatasetHashAlgorithm =
+  "sha256-canonical-json-v1";
+
+export interface DatasetHash {
+  algorithm: DatasetHashAlgorithm;
+  hash: string;
+}
+
+// JSON with object keys sorted, so equal content always hashes the same
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const sha256 = (data: Buffer | string) =>
+  `0x${crypto.createHash("sha256").update(data).digest("hex")}`;
+
+export function resolveDatasetHashAlgorithm(
+  value?: string
+): DatasetHashAlgorithm {
+  const algorithm = (value ||
+    DEFAULT_DATASET_HASH_ALGORITHM) as DatasetHashAlgorithm;
+  if (!DATASET_HASH_ALGORITHMS.includes(algorithm)) {
+    throw new Error(
+      `Unknown content hash algorithm "${value}". Available: ${DATASET_HASH_ALGORITHMS.join(
+        ", "
+      )}`
+    );
+  }
+  return algorithm;
+}
+
+export function hashDatasetRows(rows: any[]): DatasetHash {
+  return {
+    algorithm: "sha256-canonical-json-v1",
+    hash: sha256(canonicalJson(rows)),
+  };
+}
+
+/**
+ * Hash dataset content as stored. With the canonical JSON algorithm the
+ * content is parsed the same way the preview and export routes read it.
+ */
+export function hashDatasetContent(
+  content: Buffer | string,
+  content_type = "",
+  algorithm: DatasetHashAlgorithm = DEFAULT_DATASET_HASH_ALGORITHM
+): DatasetHash {
+  if (algorithm === "sha256-bytes-v1") {
+    return { algorithm, hash: sha256(content) };
+  }
+  const text = typeof content === "string" ? content : content.toString();
+  return hashDatasetRows(parseDataset(text, content_type));
+}
+
+export function sameHash(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,198 @@
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { canonicalJson } from "./dataset-hash";
+
+dotenv.config();
+
+// EIP-712 domain shared by row and dataset signatures. There is no chainId:
+// signatures are checked off-chain and must stay valid across networks.
+export const SIGNING_DOMAIN = { name: "SagaSynth", version: "1" };
+
+const ROW_TYPES = {
+  SyntheticRow: [
+    { name: "outputHash", type: "bytes32" },
+    { name: "generator", type: "string" },
+  ],
+};
+
+const DATASET_TYPES = {
+  Dataset: [
+    { name: "rowCount", type: "uint256" },
+    { name: "rowsHash", type: "bytes32" },
+  ],
+};
+
+export interface SignableRow {
+  synthetic_output: any;
+  generator: { provider: string; model: string };
+  signature?: string;
+}
+
+export interface DatasetSignature {
+  scheme: "eip712";
+  domain: typeof SIGNING_DOMAIN;
+  signer: string;
+  row_count: number;
+  rows_hash: string;
+  signature: string;
+}
+
+let generatorSigner: ethers.Wallet | null | undefined;
+
+// Dedicated key for generated data, separate from the minting PRIVATE_KEY
+export function getGeneratorSigner(): ethers.Wallet | null {
+  if (generatorSigner === undefined) {
+    const key = process.env.GENERATOR_PRIVATE_KEY || "";
+    generatorSigner = key ? new ethers.Wallet(key) : null;
+    if (!generatorSigner) {
+      console.log("GENERATOR_PRIVATE_KEY not set, rows will not be signed");
+    }
+  }
+  return generatorSigner;
+}
+
+// Rows read back from content or sent by a client may lack the fields that
+// were signed, e.g. chat examples or hand-written rows
+function isSignableRow(row: any): row is SignableRow {
+  return (
+    typeof row?.synthetic_output === "object" &&
+    row.synthetic_output !== null &&
+    typeof row.generator?.provider === "string" &&
+    typeof row.generator?.model === "string"
+  );
+}
+
+function rowMessage(row: SignableRow) {
+  return {
+    outputHash: ethers.keccak256(
+      ethers.toUtf8Bytes(canonicalJson(row.synthetic_output))
+    ),
+    generator: `${row.generator.provider}:${row.generator.model}`,
+  };
+}
+
+function rowDigest(row: SignableRow) {
+  return ethers.TypedDataEncoder.hash(
+    SIGNING_DOMAIN,
+    ROW_TYPES,
+    rowMessage(row)
+  );
+}
+
+function datasetMessage(rows: SignableRow[]) {
+  return {
+    rowCount: rows.length,
+    rowsHash: ethers.keccak256(ethers.concat(rows.map(rowDigest))),
+  };
+}
+
+// Returns "" when no generator key is configured
+export function signRow(row: SignableRow): string {
+  const signer = getGeneratorSigner();
+  if (!signer) return "";
+  return signer.signingKey.sign(rowDigest(row)).serialized;
+}
+
+export function signDataset(rows: SignableRow[]): DatasetSignature | null {
+  const signer = getGeneratorSigner();
+  if (!signer) return null;
+
+  const message = datasetMessage(rows);
+  const digest = ethers.TypedDataEncoder.hash(
+    SIGNING_DOMAIN,
+    DATASET_TYPES,
+    message
+  );
+
+  return {
+    scheme: "eip712",
+    domain: SIGNING_DOMAIN,
+    signer: signer.address,
+    row_count: message.rowCount,
+    rows_hash: message.rowsHash,
+    signature: signer.signingKey.sign(digest).serialized,
+  };
+}
+
+function recover(digest: string, signature: string) {
+  try {
+    return ethers.recoverAddress(digest, signature);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Check each row signature and the dataset signature against the expected
+ * signer. Any edit to a row's output, or adding, removing or reordering rows,
+ * makes verification fail. Rows without a synthetic_output object or a
+ * generator are invalid, and so is the dataset signature over them.
+ */
+export function verifyDatasetSignatures(
+  rows: any[],
+  expectedSigner: string,
+  datasetSignature?: string
+) {
+  const expected = expectedSigner.toLowerCase();
+
+  const rowResults = rows.map((row, index) => {
+    if (!isSignableRow(row)) {
+      return {
+        index,
+        status: "invalid" as const,
+        recovered: null,
+        reason: "Row has no synthetic_output object or generator",
+      };
+    }
+    if (!row.signature) {
+      return { index, status: "unsigned" as const, recovered: null };
+    }
+    const recovered = recover(rowDigest(row), row.signature);
+    return {
+      index,
+      status:
+        recovered && recovered.toLowerCase() === expected
+          ? ("valid" as const)
+          : ("invalid" as const),
+      recovered,
+    };
+  });
+
+  let dataset = null;
+  if (datasetSignature) {
+    const recovered = rows.every(isSignableRow)
+      ? recover(
+          ethers.TypedDataEncoder.hash(
+            SIGNING_DOMAIN,
+            DATASET_TYPES,
+            datasetMessage(rows)
+          ),
+          datasetSignature
+        )
+      : null;
+    dataset = {
+      valid: !!recovered && recovered.toLowerCase() === expected,
+      recovered,
+    };
+  }
+
+  const summary = {
+    total: rowResults.length,
+    valid: rowResults.filter((r) => r.status === "valid").length,
+    invalid: rowResults.filter((r) => r.status === "invalid").length,
+    unsigned: rowResults.filter((r) => r.status === "unsigned").length,
+  };
+
+  // Rows that failed verification are never signed; they are still covered
+  // by the dataset signature
+  return {
+    signer: expectedSigner,
+    valid:
+      summary.valid > 0 &&
+      summary.invalid === 0 &&
+      (dataset ? dataset.valid : true),
+    summary,
+    dataset,
+    rows: rowResults,
+  };
+}
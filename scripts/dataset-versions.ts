@@ -0,0 +1,185 @@
+import { contentHash } from "./generation-manifest";
+import { parseDataset, typedRows } from "./dataset-formats";
+import { isEncrypted } from "./dataset-encryption";
+import { JsonSchema } from "./json-schema";
+
+// Versions of a published dataset. A new version appends rows to its parent
+// or regenerates them; its metadata links the parent and the root, and
+// carries the changelog of the whole lineage.
+
+export type VersionMode = "append" | "regenerate";
+
+export const VERSION_MODES: VersionMode[] = ["append", "regenerate"];
+
+export interface ParentDataset {
+  metadata_url: string;
+  token_id?: string;
+  version: number;
+  // Metadata URL of version 1
+  root: string;
+  content_url: string;
+  content_format: string;
+  publication_profile: string;
+  visibility?: string;
+  domain?: string;
+  row_schema_hash: string | null;
+  changelog: ChangelogEntry[];
+  // Published rows, read back with their types before generation starts
+  rows: any[];
+}
+
+export interface ChangelogEntry {
+  version: number;
+  mode: VersionMode | "create";
+  message: string | null;
+  rows_added: number;
+  rows_removed: number;
+  created_at: string;
+}
+
+export interface RowDiff {
+  parent_rows: number;
+  rows: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export function resolveVersionMode(value?: string): VersionMode {
+  const mode = (value || "append") as VersionMode;
+  if (!VERSION_MODES.includes(mode)) {
+    throw new Error(
+      `Unknown version_mode "${value}". Available: ${VERSION_MODES.join(", ")}`
+    );
+  }
+  return mode;
+}
+
+/**
+ * Describe the parent of a new version from its metadata. Chat examples
+ * cannot be read back into rows, so those datasets cannot be extended.
+ */
+export function parentDataset(
+  metadata_url: string,
+  metadata: Record<string, any>,
+  token_id?: string
+): Omit<ParentDataset, "rows"> {
+  if (!metadata?.content_url) {
+    throw new Error("Parent metadata has no content_url");
+  }
+  const content_format = metadata.content_format || "json";
+  if (content_format === "chat-jsonl") {
+    throw new Error("chat-jsonl datasets cannot be versioned");
+  }
+  return {
+    metadata_url,
+    ...(token_id !== undefined ? { token_id: String(token_id) } : {}),
+    version: Number(metadata.version) || 1,
+    root: metadata.root || metadata_url,
+    content_url: metadata.content_url,
+    content_format,
+    publication_profile: metadata.publication_profile || "synthetic-only",
+    visibility: metadata.visibility,
+    domain: metadata.domain,
+    row_schema_hash: metadata.row_schema
+      ? contentHash(metadata.row_schema)
+      : null,
+    changelog: Array.isArray(metadata.changelog) ? metadata.changelog : [],
+  };
+}
+
+/**
+ * Read the parent's published rows back. Encrypted content cannot be
+ * extended, and every row must carry a synthetic_output object. CSV values
+ * come back as strings, so they are converted to the types of the parent's
+ * row schema; otherwise the row diff and signatures would not match.
+ */
+export function parentRows(
+  parent: Omit<ParentDataset, "rows">,
+  content: { text: string; content_type: string },
+  row_schema?: JsonSchema
+): any[] {
+  if (isEncrypted(content.text)) {
+    throw new Error("Encrypted (private) datasets cannot be versioned");
+  }
+  const rows = parseDataset(content.text, content.content_type);
+  rows.forEach((row, index) => {
+    if (
+      !row ||
+      typeof row !== "object" ||
+      !row.synthetic_output ||
+      typeof row.synthetic_output !== "object"
+    ) {
+      throw new Error(`Parent row ${index} has no synthetic_output object`);
+    }
+  });
+  return parent.content_format === "csv" ? typedRows(rows, row_schema) : rows;
+}
+
+export function versionRows(
+  mode: VersionMode,
+  parent_rows: any[],
+  new_rows: any[]
+) {
+  return mode === "append" ? [...parent_rows, ...new_rows] : new_rows;
+}
+
+// Rows are matched on their synthetic output, counting repeats
+export function rowDiff(parent_rows: any[], rows: any[]): RowDiff {
+  const remaining = new Map<string, number>();
+  parent_rows.forEach((row) => {
+    const key = contentHash(row?.synthetic_output ?? row);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+
+  let unchanged = 0;
+  rows.forEach((row) => {
+    const key = contentHash(row?.synthetic_output ?? row);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      unchanged++;
+    }
+  });
+
+  return {
+    parent_rows: parent_rows.length,
+    rows: rows.length,
+    added: rows.length - unchanged,
+    removed: parent_rows.length - unchanged,
+    unchanged,
+  };
+}
+
+// Versioning fields of the metadata of a new dataset or version
+export function versionMetadata(
+  parent: ParentDataset | null,
+  mode: VersionMode,
+  message: string | undefined,
+  diff: RowDiff
+) {
+  const version = parent ? parent.version + 1 : 1;
+  const entry: ChangelogEntry = {
+    version,
+    mode: parent ? mode : "create",
+    message: message || null,
+    rows_added: diff.added,
+    rows_removed: diff.removed,
+    created_at: new Date().toISOString(),
+  };
+  return {
+    version,
+    parent: parent
+      ? {
+          metadata_url: parent.metadata_url,
+          version: parent.version,
+          ...(parent.token_id !== undefined
+            ? { token_id: parent.token_id }
+            : {}),
+        }
+      : null,
+    root: parent ? parent.root : null,
+    changelog: [...(parent ? parent.changelog : []), entry],
+    ...(parent ? { diff } : {}),
+  };
+}
@@ -0,0 +1,136 @@
+// Near-duplicate detection for generated rows using MinHash over word
+// shingles, which estimates the Jaccard similarity of two texts.
+
+export interface DiversityConfig {
+  // Rows at least this similar to an accepted row are dropped
+  threshold: number;
+}
+
+export const DEFAULT_DIVERSITY_CONFIG: DiversityConfig = { threshold: 0.8 };
+
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 64;
+
+// Appended to the prompt when a source text is reused, so repeated requests
+// do not converge on the same answer
+const VARIATION_HINTS = [
+  "Use different demographics and names than a typical example.",
+  "Change the setting, timeline and circumstances.",
+  "Describe a milder or more severe case than the input.",
+  "Use a different tone and sentence structure.",
+  "Change the outcome or resolution.",
+  "Write it from a different perspective or role.",
+  "Introduce a different complicating factor.",
+  "Use different terminology and level of detail.",
+];
+
+export type MinHashSignature = number[];
+
+function shingles(text: string, k = SHINGLE_SIZE) {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const result = new Set<string>();
+  if (tokens.length < k) {
+    if (tokens.length > 0) result.add(tokens.join(" "));
+    return result;
+  }
+  for (let i = 0; i + k <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + k).join(" "));
+  }
+  return result;
+}
+
+// 32-bit FNV-1a, seeded so each position of the signature is independent
+function hash(value: string, seed: number) {
+  let h = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x2c1b3c6d) >>> 0;
+  h ^= h >>> 12;
+  return h >>> 0;
+}
+
+export function minhash(text: string): MinHashSignature {
+  const signature = new Array(NUM_HASHES).fill(0xffffffff);
+  shingles(text).forEach((shingle) => {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = hash(shingle, i * 0x9e3779b1);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+}
+
+// Estimated Jaccard similarity: the share of matching signature positions
+export function similarity(a: MinHashSignature, b: MinHashSignature) {
+  let same = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / NUM_HASHES;
+}
+
+export function variationHint(round: number) {
+  return `Variation ${round}: ${
+    VARIATION_HINTS[(round - 1) % VARIATION_HINTS.length]
+  } Do not repeat earlier answers.`;
+}
+
+/**
+ * Keeps the signatures of accepted rows and tells whether a candidate is a
+ * near-duplicate of any of them.
+ */
+export class DiversityIndex {
+  private signatures: MinHashSignature[] = [];
+
+  constructor(private config: DiversityConfig = DEFAULT_DIVERSITY_CONFIG) {}
+
+  // Most similar accepted row, if it reaches the threshold
+  findDuplicate(signature: MinHashSignature) {
+    let best = { index: -1, similarity: 0 };
+    this.signatures.forEach((other, index) => {
+      const score = similarity(signature, other);
+      if (score > best.similarity) best = { index, similarity: score };
+    });
+    return best.similarity >= this.config.threshold ? best : null;
+  }
+
+  add(signature: MinHashSignature) {
+    this.signatures.push(signature);
+  }
+}
+
+// Aggregate report stored in the dataset metadata
+export function buildDiversityReport(
+  texts: string[],
+  config: DiversityConfig,
+  duplicates = 0
+) {
+  const signatures = texts.map(minhash);
+  let total = 0;
+  let max = 0;
+  let pairs = 0;
+  for (let i = 0; i < signatures.length; i++) {
+    for (let j = i + 1; j < signatures.length; j++) {
+      const score = similarity(signatures[i], signatures[j]);
+      total += score;
+      if (score > max) max = score;
+      pairs++;
+    }
+  }
+  const mean = pairs > 0 ? total / pairs : 0;
+  const checked = texts.length + duplicates;
+
+  return {
+    method: `minhash-${NUM_HASHES}/shingle-${SHINGLE_SIZE}`,
+    threshold: config.threshold,
+    // 1 means no shared shingles between any two rows
+    diversity_score: Number((1 - mean).toFixed(4)),
+    mean_similarity: Number(mean.toFixed(4)),
+    max_similarity: Number(max.toFixed(4)),
+    duplicates_dropped: duplicates,
+    duplicate_rate: checked > 0 ? Number((duplicates / checked).toFixed(4)) : 0,
+  };
+}
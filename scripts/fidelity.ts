@@ -0,0 +1,497 @@
+import { ColumnSpec } from "./tabular";
+import { sourceHash } from "./publication";
+
+// Statistical fidelity of a synthetic dataset compared with its source:
+// length distributions, vocabulary overlap and label divergence for text,
+// per-column marginals and correlations for tables. Reports only hold
+// aggregates, never source values.
+
+const HISTOGRAM_BINS = 10;
+// Upper bound of the length histogram for text columns without a maxLength
+const DEFAULT_TEXT_LENGTH = 200;
+
+export interface LengthStats {
+  count: number;
+  mean: number;
+  stddev: number;
+  min: number;
+  median: number;
+  max: number;
+}
+
+export interface ColumnProfile {
+  type: ColumnSpec["type"];
+  count: number;
+  mean?: number;
+  stddev?: number;
+  min?: number;
+  max?: number;
+  // Share of rows per bin (numbers, text lengths) or per value (categories,
+  // booleans, years of dates)
+  histogram?: Record<string, number>;
+}
+
+export interface TableProfile {
+  rows: number;
+  columns: Record<string, ColumnProfile>;
+  // Pearson correlation per pair of numeric or boolean columns, keyed "a~b"
+  correlations: Record<string, number>;
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+function mean(values: number[]) {
+  return values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+function stddev(values: number[]) {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+export function lengthStats(values: number[]): LengthStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    mean: round(mean(sorted)),
+    stddev: round(stddev(sorted)),
+    min: sorted[0] ?? 0,
+    median:
+      sorted.length === 0
+        ? 0
+        : sorted.length % 2
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2,
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+// Largest gap between the two empirical CDFs; 0 means identical samples
+export function ksStatistic(a: number[], b: number[]) {
+  if (a.length === 0 || b.length === 0) return 1;
+  const x = [...a].sort((p, q) => p - q);
+  const y = [...b].sort((p, q) => p - q);
+  let i = 0;
+  let j = 0;
+  let max = 0;
+  while (i < x.length && j < y.length) {
+    const value = Math.min(x[i], y[j]);
+    while (i < x.length && x[i] <= value) i++;
+    while (j < y.length && y[j] <= value) j++;
+    max = Math.max(max, Math.abs(i / x.length - j / y.length));
+  }
+  return round(max);
+}
+
+// Share of each distinct value
+export function distribution(values: string[]) {
+  const counts: Record<string, number> = {};
+  values.forEach((v) => (counts[v] = (counts[v] || 0) + 1));
+  Object.keys(counts).forEach(
+    (key) => (counts[key] = round(counts[key] / values.length))
+  );
+  return counts;
+}
+
+/**
+ * Jensen-Shannon divergence in bits: 0 for identical distributions, 1 for
+ * distributions with no value in common.
+ */
+export function jsDivergence(
+  p: Record<string, number>,
+  q: Record<string, number>
+) {
+  const keys = Array.from(new Set([...Object.keys(p), ...Object.keys(q)]));
+  const kl = (a: Record<string, number>, m: Record<string, number>) =>
+    keys.reduce((sum, key) => {
+      const value = a[key] || 0;
+      return value > 0 ? sum + value * Math.log2(value / m[key]) : sum;
+    }, 0);
+  const m = Object.fromEntries(
+    keys.map((key) => [key, ((p[key] || 0) + (q[key] || 0)) / 2])
+  );
+  return round(Math.max(0, Math.min(1, (kl(p, m) + kl(q, m)) / 2)));
+}
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+export function vocabularyOverlap(source: string[], synthetic: string[]) {
+  const sourceWords = new Set(source.flatMap(words));
+  const syntheticTokens = synthetic.flatMap(words);
+  const syntheticWords = new Set(syntheticTokens);
+  const shared = Array.from(syntheticWords).filter((w) => sourceWords.has(w));
+  const union = sourceWords.size + syntheticWords.size - shared.length;
+  return {
+    source_vocabulary: sourceWords.size,
+    synthetic_vocabulary: syntheticWords.size,
+    shared_vocabulary: shared.length,
+    jaccard: union > 0 ? round(shared.length / union) : 0,
+    // Share of synthetic tokens that also occur in the source
+    synthetic_coverage:
+      syntheticTokens.length > 0
+        ? round(
+            syntheticTokens.filter((w) => sourceWords.has(w)).length /
+              syntheticTokens.length
+          )
+        : 0,
+  };
+}
+
+/**
+ * Fidelity of text rows. Labels are compared when both sides have them,
+ * e.g. source record labels against the template's `medical_specialty`.
+ */
+export function textFidelity(input: {
+  source_texts: string[];
+  synthetic_texts: string[];
+  source_labels?: string[];
+  synthetic_labels?: string[];
+}) {
+  const sourceLengths = input.source_texts.map((t) => words(t).length);
+  const syntheticLengths = input.synthetic_texts.map((t) => words(t).length);
+  const length_ks = ksStatistic(sourceLengths, syntheticLengths);
+
+  const source_labels = input.source_labels || [];
+  const synthetic_labels = input.synthetic_labels || [];
+  const labels =
+    source_labels.length > 0 && synthetic_labels.length > 0
+      ? {
+          source: distribution(source_labels),
+          synthetic: distribution(synthetic_labels),
+          js_divergence: 0,
+        }
+      : null;
+  if (labels) {
+    labels.js_divergence = jsDivergence(labels.source, labels.synthetic);
+  }
+
+  return {
+    kind: "text" as const,
+    rows: {
+      source: input.source_texts.length,
+      synthetic: input.synthetic_texts.length,
+    },
+    lengths: {
+      unit: "words",
+      source: lengthStats(sourceLengths),
+      synthetic: lengthStats(syntheticLengths),
+      ks_statistic: length_ks,
+    },
+    vocabulary: vocabularyOverlap(input.source_texts, input.synthetic_texts),
+    labels,
+    fidelity_score: score([
+      1 - length_ks,
+      ...(labels ? [1 - labels.js_divergence] : []),
+    ]),
+  };
+}
+
+function score(components: number[]) {
+  return components.length > 0 ? round(mean(components)) : null;
+}
+
+// Bin edges shared by the source and synthetic side of a column
+function columnRange(column: ColumnSpec): [number, number] | null {
+  switch (column.type) {
+    case "integer":
+    case "number":
+      return [column.min as number, column.max as number];
+    case "string":
+      return [0, column.maxLength || DEFAULT_TEXT_LENGTH];
+    default:
+      return null;
+  }
+}
+
+function binLabel(lo: number, hi: number, i: number) {
+  const width = (hi - lo) / HISTOGRAM_BINS;
+  return `${round(lo + i * width)}-${round(lo + (i + 1) * width)}`;
+}
+
+function histogram(values: number[], [lo, hi]: [number, number]) {
+  // A column fixed to one value has a single bin
+  if (hi <= lo) return { [String(lo)]: values.length > 0 ? 1 : 0 };
+  const counts = new Array(HISTOGRAM_BINS).fill(0);
+  values.forEach((v) => {
+    const bin = Math.floor(((v - lo) / (hi - lo)) * HISTOGRAM_BINS);
+    counts[Math.max(0, Math.min(HISTOGRAM_BINS - 1, bin))]++;
+  });
+  return Object.fromEntries(
+    counts.map((count, i) => [
+      binLabel(lo, hi, i),
+      round(values.length > 0 ? count / values.length : 0),
+    ])
+  );
+}
+
+// Numeric value of a cell for marginals and correlations, if it has one
+function numericValue(column: ColumnSpec, value: any): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (column.type === "boolean") {
+    return value === true || /^(true|yes)$/i.test(String(value)) ? 1 : 0;
+  }
+  if (column.type === "integer" || column.type === "number") {
+    const number = Number(value);
+    return isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+function categoryValue(column: ColumnSpec, value: any): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (column.type === "boolean") {
+    return numericValue(column, value) ? "true" : "false";
+  }
+  // Dates are compared by year
+  if (column.type === "date") return String(value).slice(0, 4);
+  return String(value);
+}
+
+function pearson(a: number[], b: number[]) {
+  const ma = mean(a);
+  const mb = mean(b);
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  a.forEach((x, i) => {
+    cov += (x - ma) * (b[i] - mb);
+    va += (x - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  });
+  return va > 0 && vb > 0 ? round(cov / Math.sqrt(va * vb)) : 0;
+}
+
+// Marginals and correlations of table rows, e.g. a sample CSV or the output
+export function profileTable(
+  columns: ColumnSpec[],
+  rows: Record<string, any>[]
+): TableProfile {
+  const profile: TableProfile = {
+    rows: rows.length,
+    columns: {},
+    correlations: {},
+  };
+
+  columns.forEach((column) => {
+    const range = columnRange(column);
+    if (column.type === "string") {
+      const lengths = rows
+        .map((row) => row[column.name])
+        .filter((v) => typeof v === "string" && v !== "")
+        .map((v: string) => v.length);
+      const stats = lengthStats(lengths);
+      profile.columns[column.name] = {
+        type: column.type,
+        count: lengths.length,
+        mean: stats.mean,
+        stddev: stats.stddev,
+        min: stats.min,
+        max: stats.max,
+        histogram: histogram(lengths, range!),
+      };
+    } else if (range) {
+      const values = rows
+        .map((row) => numericValue(column, row[column.name]))
+        .filter((v): v is number => v !== null);
+      profile.columns[column.name] = {
+        type: column.type,
+        count: values.length,
+        mean: round(mean(values)),
+        stddev: round(stddev(values)),
+        min: values.length > 0 ? Math.min(...values) : 0,
+        max: values.length > 0 ? Math.max(...values) : 0,
+        histogram: histogram(values, range),
+      };
+    } else {
+      const values = rows
+        .map((row) => categoryValue(column, row[column.name]))
+        .filter((v): v is string => v !== null);
+      profile.columns[column.name] = {
+        type: column.type,
+        count: values.length,
+        histogram: distribution(values),
+      };
+    }
+  });
+
+  const numeric = columns.filter((c) =>
+    ["integer", "number", "boolean"].includes(c.type)
+  );
+  numeric.forEach((a, i) =>
+    numeric.slice(i + 1).forEach((b) => {
+      const pairs = rows
+        .map((row) => [
+          numericValue(a, row[a.name]),
+          numericValue(b, row[b.name]),
+        ])
+        .filter((pair): pair is number[] => !pair.includes(null));
+      if (pairs.length > 1) {
+        profile.correlations[`${a.name}~${b.name}`] = pearson(
+          pairs.map((p) => p[0]),
+          pairs.map((p) => p[1])
+        );
+      }
+    })
+  );
+
+  return profile;
+}
+
+// Standard normal CDF via the Abramowitz-Stegun erf approximation
+function normalCdf(x: number) {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * The marginals the column specs describe, for requests without a sample to
+ * compare against. Columns are sampled independently, so no correlations
+ * are expected.
+ */
+export function expectedTableProfile(columns: ColumnSpec[]): TableProfile {
+  const profile: TableProfile = { rows: 0, columns: {}, correlations: {} };
+
+  columns.forEach((column) => {
+    if (column.type === "integer" || column.type === "number") {
+      const [lo, hi] = columnRange(column)!;
+      const normal = column.distribution === "normal";
+      const mu = normal ? column.mean! : (lo + hi) / 2;
+      const sigma = normal ? column.stddev! : (hi - lo) / Math.sqrt(12);
+      const width = (hi - lo) / HISTOGRAM_BINS;
+      const cdf = (x: number) =>
+        normal ? normalCdf((x - mu) / (sigma || 1)) : (x - lo) / (hi - lo);
+      // Values outside the range are clamped into the first and last bin
+      const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => {
+        const from = i === 0 ? 0 : cdf(lo + i * width);
+        const to = i === HISTOGRAM_BINS - 1 ? 1 : cdf(lo + (i + 1) * width);
+        return [binLabel(lo, hi, i), round(to - from)];
+      });
+      profile.columns[column.name] = {
+        type: column.type,
+        count: 0,
+        mean: round(mu),
+        stddev: round(sigma),
+        min: lo,
+        max: hi,
+        histogram: hi > lo ? Object.fromEntries(bins) : { [String(lo)]: 1 },
+      };
+    } else if (column.type === "category") {
+      const weights =
+        column.weights || column.categories!.map(() => 1 as number);
+      const total = weights.reduce((sum, w) => sum + w, 0);
+      profile.columns[column.name] = {
+        type: column.type,
+        count: 0,
+        histogram: Object.fromEntries(
+          column.categories!.map((c, i) => [c, round(weights[i] / total)])
+        ),
+      };
+    } else if (column.type === "boolean") {
+      const p = column.probability ?? 0.5;
+      profile.columns[column.name] = {
+        type: column.type,
+        count: 0,
+        histogram: { true: round(p), false: round(1 - p) },
+      };
+    } else {
+      // No expected shape for free text and date years
+      profile.columns[column.name] = { type: column.type, count: 0 };
+    }
+  });
+
+  return profile;
+}
+
+// The same histogram keyed by the hashes of its values
+function hashKeys(profile?: ColumnProfile): ColumnProfile | undefined {
+  return profile?.histogram
+    ? {
+        ...profile,
+        histogram: Object.fromEntries(
+          Object.entries(profile.histogram).map(([value, share]) => [
+            sourceHash(value),
+            share,
+          ])
+        ),
+      }
+    : profile;
+}
+
+/**
+ * Compare the output rows of a tabular dataset with the source profile
+ * (from a sample CSV or the column specs). With `hash_categories`, category
+ * histograms are keyed by the hashes of the values, as for a sample whose
+ * values must not be published.
+ */
+export function tabularFidelity(
+  columns: ColumnSpec[],
+  source: TableProfile,
+  rows: Record<string, any>[],
+  basis: "sample" | "spec",
+  hash_categories = false
+) {
+  const synthetic = profileTable(columns, rows);
+
+  const marginals = columns.map((column) => {
+    const s = source.columns[column.name];
+    const o = synthetic.columns[column.name];
+    const hashed = hash_categories && column.type === "category";
+    return {
+      column: column.name,
+      type: column.type,
+      source: hashed ? hashKeys(s) : s,
+      synthetic: hashed ? hashKeys(o) : o,
+      js_divergence:
+        o.count > 0 &&
+        o.histogram &&
+        Object.values(s?.histogram || {}).some((share) => share > 0)
+          ? jsDivergence(s.histogram!, o.histogram)
+          : null,
+    };
+  });
+
+  const correlations = Object.keys(source.correlations)
+    .filter((key) => key in synthetic.correlations)
+    .map((key) => ({
+      columns: key.split("~"),
+      source: source.correlations[key],
+      synthetic: synthetic.correlations[key],
+      difference: round(
+        Math.abs(source.correlations[key] - synthetic.correlations[key])
+      ),
+    }));
+  const mean_correlation_difference =
+    correlations.length > 0
+      ? round(mean(correlations.map((c) => c.difference)))
+      : null;
+
+  const divergences = marginals
+    .map((m) => m.js_divergence)
+    .filter((d): d is number => d !== null);
+
+  return {
+    kind: "tabular" as const,
+    basis,
+    rows: { source: source.rows, synthetic: rows.length },
+    marginals,
+    correlations,
+    mean_correlation_difference,
+    fidelity_score: score([
+      ...divergences.map((d) => 1 - d),
+      // Correlations range over [-1, 1], so differences go up to 2
+      ...(mean_correlation_difference !== null
+        ? [1 - mean_correlation_difference / 2]
+        : []),
+    ]),
+  };
+}
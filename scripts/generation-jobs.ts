@@ -0,0 +1,207 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { UsageTotals, emptyUsage } from "./token-usage";
+import { UploadProgress } from "./chunked-upload";
+
+// Local persistent store so jobs survive a server restart. Each job has its
+// own file, so progress updates rewrite one job rather than all of them.
+const JOBS_DIR = path.resolve(__dirname, "../jobs");
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "uploading"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+const ACTIVE_STATUSES: JobStatus[] = ["queued", "running", "uploading"];
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  request: Record<string, any>;
+  progress: {
+    total: number;
+    done: number;
+    failed: number;
+    retries: number;
+    // Tokens and cost spent across every run of the job
+    usage: UsageTotals;
+  };
+  // Rows generated so far, so an interrupted job resumes instead of restarting
+  rows: any[];
+  // Model calls made so far, for the generation manifest
+  attempts: any[];
+  // Chunks of the dataset uploaded so far, while the job is uploading
+  upload?: UploadProgress;
+  irys_links: { content_url: string; metadata_url: string } | null;
+  result: Record<string, any> | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type JobRunner = (job: GenerationJob) => Promise<void>;
+
+function jobFile(id: string) {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new Error(`Invalid job id: ${id}`);
+  }
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function writeJob(job: GenerationJob) {
+  fs.mkdirSync(JOBS_DIR, { recursive: true });
+  const file = jobFile(job.id);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(job));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function readJobs(): GenerationJob[] {
+  if (!fs.existsSync(JOBS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(JOBS_DIR)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) =>
+      JSON.parse(fs.readFileSync(path.join(JOBS_DIR, name), "utf-8"))
+    );
+}
+
+export function getJob(id: string): GenerationJob | null {
+  let file: string;
+  try {
+    file = jobFile(id);
+  } catch {
+    return null;
+  }
+  return fs.existsSync(file)
+    ? JSON.parse(fs.readFileSync(file, "utf-8"))
+    : null;
+}
+
+export function listJobs(): GenerationJob[] {
+  return readJobs().sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+export function updateJob(
+  id: string,
+  patch: Partial<Omit<GenerationJob, "id" | "created_at">>
+): GenerationJob | null {
+  const job = getJob(id);
+  if (!job) {
+    return null;
+  }
+
+  const updated = { ...job, ...patch, updated_at: new Date().toISOString() };
+  writeJob(updated);
+  return updated;
+}
+
+export function isJobCancelled(id: string) {
+  return getJob(id)?.status === "cancelled";
+}
+
+// Only queued or in-flight jobs can be cancelled
+export function cancelJob(id: string): GenerationJob | null {
+  const job = getJob(id);
+  if (!job || !ACTIVE_STATUSES.includes(job.status)) {
+    return job;
+  }
+  return updateJob(id, { status: "cancelled" });
+}
+
+let runner: JobRunner | null = null;
+let draining = false;
+
+// Run queued jobs one at a time, oldest first
+async function drainQueue() {
+  if (draining || !runner) {
+    return;
+  }
+  draining = true;
+
+  try {
+    while (true) {
+      const next = readJobs()
+        .filter((job) => job.status === "queued")
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))[0];
+      if (!next) {
+        break;
+      }
+
+      const job = updateJob(next.id, { status: "running" })!;
+      console.log(`Starting generation job ${job.id}...`);
+
+      try {
+        await runner(job);
+      } catch (error) {
+        console.error(`Generation job ${job.id} failed:`, error);
+        if (!isJobCancelled(job.id)) {
+          updateJob(job.id, {
+            status: "failed",
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+// Start draining without waiting for it; a failure there (e.g. an unreadable
+// job file) is logged instead of left as an unhandled rejection
+function kickQueue() {
+  drainQueue().catch((error) =>
+    console.error("Generation job queue stopped:", error)
+  );
+}
+
+export function enqueueJob(
+  request: Record<string, any>,
+  total: number
+): GenerationJob {
+  const now = new Date().toISOString();
+  const job: GenerationJob = {
+    id: crypto.randomUUID(),
+    status: "queued",
+    request,
+    progress: { total, done: 0, failed: 0, retries: 0, usage: emptyUsage() },
+    rows: [],
+    attempts: [],
+    irys_links: null,
+    result: null,
+    error: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  writeJob(job);
+  kickQueue();
+  return job;
+}
+
+/**
+ * Register the function that executes a job and pick up work left over from
+ * a previous process: jobs that were running when it stopped are re-queued.
+ */
+export function startJobWorker(jobRunner: JobRunner) {
+  runner = jobRunner;
+
+  const interrupted = readJobs().filter(
+    (job) => job.status === "running" || job.status === "uploading"
+  );
+  if (interrupted.length > 0) {
+    console.log(`Resuming ${interrupted.length} interrupted generation job(s)`);
+    interrupted.forEach((job) => writeJob({ ...job, status: "queued" }));
+  }
+
+  kickQueue();
+}
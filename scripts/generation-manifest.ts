@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { execSync } from "child_process";
+import { PublicationProfile, sourceHash } from "./publication";
+import { canonicalJson } from "./dataset-hash";
+
+// A manifest records how a dataset was produced (settings, template, schema,
+// code version and every model call) so the generation can be audited and
+// replayed. It is uploaded next to the dataset and referenced by its hash.
+
+export const MANIFEST_VERSION = 1;
+
+// One model call made while generating, accepted or not
+export interface AttemptRecord {
+  attempt: number;
+  // Index of the input in the run that made the call
+  input: number;
+  source_id?: string;
+  variant?: number;
+  prompt: string;
+  prompt_hash: string;
+  model: string | null;
+  latency_ms: number;
+  // Answered from the response cache
+  cached?: boolean;
+  status: "accepted" | "rejected" | "failed";
+  reason?: "validation" | "leakage" | "quality" | "duplicate" | "error";
+  violations?: { path: string; keyword: string }[];
+  error?: string;
+  output_hash?: string;
+  // Judge score of the output, when the judge was enabled
+  quality_score?: number;
+}
+
+// Request fields that decide what a generation produces. Source texts and
+// sample CSVs are left out; a replay supplies them again.
+const REPLAY_FIELDS = [
+  "ai_model",
+  "domain",
+  "template_id",
+  "template_version",
+  "response_schema",
+  "sample_size",
+  "variants_per_row",
+  "huggingface",
+  "mode",
+  "columns",
+  "seed",
+  "temperature",
+  "max_tokens",
+  "max_total_tokens",
+  "max_cost_usd",
+  "leakage_threshold",
+  "leakage_action",
+  "diversity_threshold",
+  "redaction_detectors",
+  "publication_profile",
+  "visibility",
+  "output_format",
+  "concurrency",
+  "requests_per_minute",
+  "max_retries",
+  "failure_budget",
+  "cache",
+  "judge",
+  "judge_model",
+  "min_quality_score",
+];
+
+export interface GenerationManifest {
+  manifest_version: number;
+  code_version: { package_version: string; git_commit: string | null };
+  request: Record<string, any>;
+  generator: {
+    provider: string;
+    model: string;
+    // Concrete models that answered, e.g. dated snapshots
+    models_used: string[];
+    temperature: number;
+    max_output_tokens: number;
+  };
+  template: { id: string; version: number; hash: string };
+  response_schema: any;
+  response_schema_hash: string;
+  seed: number | null;
+  source: {
+    type: string;
+    // Hashes of the (redacted) source texts, unless the profile is
+    // synthetic-only
+    hashes: string[] | null;
+  };
+  publication_profile: PublicationProfile;
+  rows: { produced: number; attempts: number };
+  attempts: Omit<AttemptRecord, "prompt">[] | AttemptRecord[];
+  created_at: string;
+}
+
+export function contentHash(value: any) {
+  return `sha256:${crypto
+    .createHash("sha256")
+    .update(canonicalJson(value))
+    .digest("hex")}`;
+}
+
+let cachedCodeVersion: GenerationManifest["code_version"] | null = null;
+
+// Package version plus the git commit (GIT_COMMIT, else the checkout's HEAD)
+export function codeVersion() {
+  if (!cachedCodeVersion) {
+    const pkg = JSON.parse(
+      fs.readFileSync(path.resolve(__dirname, "../package.json"), "utf8")
+    );
+    let git_commit = process.env.GIT_COMMIT || null;
+    if (!git_commit) {
+      try {
+        git_commit = execSync("git rev-parse HEAD", {
+          cwd: path.resolve(__dirname, ".."),
+          stdio: ["ignore", "pipe", "ignore"],
+        })
+          .toString()
+          .trim();
+      } catch {
+        git_commit = null;
+      }
+    }
+    cachedCodeVersion = { package_version: pkg.version, git_commit };
+  }
+  return cachedCodeVersion;
+}
+
+export function replayRequest(body: Record<string, any>) {
+  return Object.fromEntries(
+    REPLAY_FIELDS.filter((key) => body[key] !== undefined).map((key) => [
+      key,
+      body[key],
+    ])
+  );
+}
+
+/**
+ * Assemble the manifest of a finished generation. Rendered prompts contain
+ * the source text, so they are only kept under the full-private profile;
+ * otherwise each attempt carries the prompt hash.
+ */
+export function buildManifest(input: {
+  body: Record<string, any>;
+  provider: string;
+  model: string;
+  temperature: number;
+  max_output_tokens: number;
+  template: any;
+  schema: any;
+  sources: string[];
+  produced: number;
+  attempts: AttemptRecord[];
+  profile: PublicationProfile;
+}): GenerationManifest {
+  const { version, ...template } = input.template;
+  return {
+    manifest_version: MANIFEST_VERSION,
+    code_version: codeVersion(),
+    request: replayRequest(input.body),
+    generator: {
+      provider: input.provider,
+      model: input.model,
+      models_used: Array.from(
+        new Set(
+          input.attempts
+            .map((attempt) => attempt.model)
+            .filter((model): model is string => !!model)
+        )
+      ),
+      temperature: input.temperature,
+      max_output_tokens: input.max_output_tokens,
+    },
+    template: {
+      id: input.template.id,
+      version,
+      hash: contentHash(template),
+    },
+    response_schema: input.schema,
+    response_schema_hash: contentHash(input.schema),
+    seed: input.body.seed ?? null,
+    source: {
+      type: input.body.source?.type || "text",
+      hashes:
+        input.profile === "synthetic-only"
+          ? null
+          : Array.from(new Set(input.sources)).map(sourceHash),
+    },
+    publication_profile: input.profile,
+    rows: { produced: input.produced, attempts: input.attempts.length },
+    attempts:
+      input.profile === "full-private"
+        ? input.attempts
+        : input.attempts.map(({ prompt, ...attempt }) => attempt),
+    created_at: new Date().toISOString(),
+  };
+}
+
+const share = (part: number, whole: number) =>
+  whole > 0 ? Number((part / whole).toFixed(4)) : 0;
+
+// Share of model calls whose output passed schema validation
+function passRate(manifest: GenerationManifest) {
+  return share(
+    manifest.attempts.filter(
+      (attempt) =>
+        attempt.status !== "failed" && attempt.reason !== "validation"
+    ).length,
+    manifest.attempts.length
+  );
+}
+
+/**
+ * Compare a replay with the manifest it re-ran: same template, schema and
+ * code, how many prompts were identical, and how many accepted outputs were
+ * reproduced exactly (expected only from deterministic models).
+ */
+export function compareManifests(
+  original: GenerationManifest,
+  replay: GenerationManifest
+) {
+  const originalPrompts = new Set(original.attempts.map((a) => a.prompt_hash));
+  const originalOutputs = new Set(
+    original.attempts
+      .filter((a) => a.status === "accepted")
+      .map((a) => a.output_hash)
+  );
+  const replayAccepted = replay.attempts.filter((a) => a.status === "accepted");
+
+  return {
+    template_match: original.template.hash === replay.template.hash,
+    response_schema_match:
+      original.response_schema_hash === replay.response_schema_hash,
+    code_version_match:
+      original.code_version.git_commit === replay.code_version.git_commit,
+    rows: { original: original.rows.produced, replay: replay.rows.produced },
+    validation_pass_rate: {
+      original: passRate(original),
+      replay: passRate(replay),
+    },
+    // Share of replay prompts that the original run also sent
+    prompts_matched: share(
+      replay.attempts.filter((a) => originalPrompts.has(a.prompt_hash)).length,
+      replay.attempts.length
+    ),
+    // Share of replay rows whose output equals an original row
+    outputs_reproduced: share(
+      replayAccepted.filter((a) => originalOutputs.has(a.output_hash)).length,
+      replayAccepted.length
+    ),
+  };
+}
@@ -3,6 +3,7 @@ import fs from "fs";
 import path from "path";
 import * as dotenv from "dotenv";
 import { getBountyDetails } from "./get-all-bounties";
+import { hashDatasetRows } from "./dataset-hash";
 
 dotenv.config();
 
@@ -43,7 +44,7 @@ async function main() {
     console.log("Minting a new metadata NFT...");
 
     const sourceUrl = "https://example.com/article";
-    const contentHash = ethers.keccak256(ethers.toUtf8Bytes("Example content"));
+    const contentHash = hashDatasetRows([{ text: "Example content" }]).hash;
     const contentLink = "https://ipfs.io/ipfs/QmExample";
     const embedVectorId = "vector123";
     const createdAt = Math.floor(Date.now() / 1000);
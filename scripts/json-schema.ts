@@ -0,0 +1,398 @@
+// Minimal JSON Schema support for synthetic row shapes.
+// Covers the subset that LLM structured-output APIs understand: type,
+// properties, required, additionalProperties, items, enum and the usual
+// length / range bounds.
+
+export type JsonSchema = Record<string, any>;
+
+export type SchemaViolationKeyword =
+  | "type"
+  | "required"
+  | "additionalProperties"
+  | "enum"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "minimum"
+  | "maximum"
+  | "minItems"
+  | "maxItems";
+
+export interface SchemaViolation {
+  path: string;
+  keyword: SchemaViolationKeyword;
+  message: string;
+}
+
+const SUPPORTED_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+];
+
+const SUPPORTED_KEYWORDS = [
+  "$schema",
+  "$id",
+  "title",
+  "description",
+  "type",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "minItems",
+  "maxItems",
+];
+
+// User-supplied patterns run against every generated value, so they are
+// kept short and may not nest quantifiers (the usual catastrophic
+// backtracking shape, e.g. "(a+)+")
+const MAX_PATTERN_LENGTH = 200;
+const NESTED_QUANTIFIER = /\([^()]*[+*}][^()]*\)[+*{]/;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compilePattern(pattern: string) {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Throw if a user-supplied schema uses anything outside the supported subset.
+ * Rows must be objects, so the root schema has to be `type: "object"`.
+ */
+export function assertSupportedSchema(schema: JsonSchema, path = "$") {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(`Schema at ${path} must be an object`);
+  }
+
+  const unknown = Object.keys(schema).filter(
+    (key) => !SUPPORTED_KEYWORDS.includes(key)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unsupported schema keyword(s) at ${path}: ${unknown.join(", ")}`
+    );
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length === 0 && !schema.enum) {
+    throw new Error(`Schema at ${path} must declare a type or enum`);
+  }
+  types.forEach((type) => {
+    if (!SUPPORTED_TYPES.includes(type)) {
+      throw new Error(`Unsupported type "${type}" at ${path}`);
+    }
+  });
+
+  if (path === "$" && !types.includes("object")) {
+    throw new Error('Row schema must have type "object"');
+  }
+
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== "string") {
+      throw new Error(`pattern at ${path} must be a string`);
+    }
+    if (schema.pattern.length > MAX_PATTERN_LENGTH) {
+      throw new Error(
+        `pattern at ${path} is longer than ${MAX_PATTERN_LENGTH} characters`
+      );
+    }
+    if (NESTED_QUANTIFIER.test(schema.pattern)) {
+      throw new Error(`pattern at ${path} nests quantifiers`);
+    }
+    try {
+      compilePattern(schema.pattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid pattern at ${path}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  if (
+    schema.required !== undefined &&
+    (!Array.isArray(schema.required) ||
+      schema.required.some((key: any) => typeof key !== "string"))
+  ) {
+    throw new Error(`required at ${path} must be an array of strings`);
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`enum at ${path} must be an array`);
+  }
+
+  Object.entries(schema.properties || {}).forEach(([key, child]) =>
+    assertSupportedSchema(child as JsonSchema, `${path}.${key}`)
+  );
+  if (schema.items) {
+    assertSupportedSchema(schema.items, `${path}[]`);
+  }
+}
+
+function matchesType(value: any, type: string) {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+export function validateAgainstSchema(
+  value: any,
+  schema: JsonSchema,
+  path = "$"
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const types = schemaTypes(schema);
+
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return [
+      {
+        path,
+        keyword: "type",
+        message: `Expected ${types.join(" | ")}, got ${
+          Array.isArray(value)
+            ? "array"
+            : value === null
+            ? "null"
+            : typeof value
+        }`,
+      },
+    ];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({
+      path,
+      keyword: "enum",
+      message: `Value must be one of: ${schema.enum.join(", ")}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({
+        path,
+        keyword: "minLength",
+        message: `Must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({
+        path,
+        keyword: "maxLength",
+        message: `Must be at most ${schema.maxLength} characters`,
+      });
+    }
+    if (
+      schema.pattern !== undefined &&
+      !compilePattern(schema.pattern).test(value)
+    ) {
+      violations.push({
+        path,
+        keyword: "pattern",
+        message: `Must match pattern ${schema.pattern}`,
+      });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({
+        path,
+        keyword: "minimum",
+        message: `Must be >= ${schema.minimum}`,
+      });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({
+        path,
+        keyword: "maximum",
+        message: `Must be <= ${schema.maximum}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({
+        path,
+        keyword: "minItems",
+        message: `Must contain at least ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({
+        path,
+        keyword: "maxItems",
+        message: `Must contain at most ${schema.maxItems} items`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        violations.push(
+          ...validateAgainstSchema(item, schema.items, `${path}[${index}]`)
+        )
+      );
+    }
+  }
+
+  if (matchesType(value, "object")) {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    (schema.required || []).forEach((key: string) => {
+      // Empty strings count as missing, as the original field check did
+      if (!(key in value) || value[key] === "" || value[key] === undefined) {
+        violations.push({
+          path: `${path}.${key}`,
+          keyword: "required",
+          message: `Missing required field "${key}"`,
+        });
+      }
+    });
+
+    Object.entries(value).forEach(([key, child]) => {
+      if (properties[key]) {
+        if (child === "" && (schema.required || []).includes(key)) return;
+        violations.push(
+          ...validateAgainstSchema(child, properties[key], `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: `${path}.${key}`,
+          keyword: "additionalProperties",
+          message: `Unexpected field "${key}"`,
+        });
+      }
+    });
+  }
+
+  return violations;
+}
+
+function coerceScalar(value: string, types: string[]) {
+  if (
+    (types.includes("integer") && /^-?\d+$/.test(value)) ||
+    (types.includes("number") && /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value))
+  ) {
+    return Number(value);
+  }
+  if (types.includes("boolean") && /^(true|false)$/.test(value)) {
+    return value === "true";
+  }
+  if (types.includes("null") && value === "null") {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Convert strings to the types a schema declares, for rows read back from a
+ * format without types such as CSV. Values that do not convert are left as
+ * they are, so validation still reports them.
+ */
+export function coerceToSchema(value: any, schema?: JsonSchema): any {
+  if (!schema || value === null || value === undefined) return value;
+  const types = schemaTypes(schema);
+
+  if (typeof value === "string") {
+    return types.includes("string") ? value : coerceScalar(value, types);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => coerceToSchema(item, schema.items));
+  }
+  if (typeof value === "object") {
+    const properties = schema.properties || {};
+    const rest =
+      typeof schema.additionalProperties === "object"
+        ? schema.additionalProperties
+        : undefined;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        coerceToSchema(
+          child,
+          Object.prototype.hasOwnProperty.call(properties, key)
+            ? properties[key]
+            : rest
+        ),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Convert to the OpenAPI-flavoured schema Gemini accepts as `responseSchema`,
+ * dropping keywords it does not understand.
+ */
+export function toGeminiSchema(schema: JsonSchema): any {
+  const types = schemaTypes(schema).filter((type) => type !== "null");
+  const result: any = {
+    type: types[0] || "string",
+  };
+
+  if (schemaTypes(schema).includes("null")) result.nullable = true;
+  if (schema.description) result.description = schema.description;
+  // Gemini only takes string enums. Other enums keep their type and are
+  // enforced by validateAgainstSchema instead
+  if (schema.enum) {
+    if (schema.enum.every((value: any) => typeof value === "string")) {
+      result.type = "string";
+      result.format = "enum";
+      result.enum = schema.enum;
+    } else if (!types[0]) {
+      result.type = schema.enum.every((value: any) => Number.isInteger(value))
+        ? "integer"
+        : schema.enum.every((value: any) => typeof value === "number")
+        ? "number"
+        : "string";
+    }
+  }
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [
+        key,
+        toGeminiSchema(child as JsonSchema),
+      ])
+    );
+    if (schema.required) result.required = schema.required;
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+
+  return result;
+}
@@ -0,0 +1,203 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { canonicalJson } from "./dataset-hash";
+import {
+  GenerationRequest,
+  GenerationResult,
+  LLMProvider,
+} from "./llm-providers";
+
+// On-disk cache of model responses, one file per request keyed by the hash
+// of provider, model, prompt and generation config. Enabled with LLM_CACHE;
+// a request can still opt in or out with `cache`.
+
+export interface CacheConfig {
+  enabled: boolean;
+  dir: string;
+  ttl_seconds: number;
+  max_bytes: number;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  writes: number;
+  expired: number;
+  evicted: number;
+}
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  result: GenerationResult;
+  created_at: string;
+}
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_MAX_MB = 100;
+
+// Since the server started
+const counters: CacheCounters = {
+  hits: 0,
+  misses: 0,
+  writes: 0,
+  expired: 0,
+  evicted: 0,
+};
+
+export function cacheConfig(): CacheConfig {
+  return {
+    enabled: ["1", "true", "on"].includes(
+      (process.env.LLM_CACHE || "").toLowerCase()
+    ),
+    dir: process.env.LLM_CACHE_DIR
+      ? path.resolve(process.env.LLM_CACHE_DIR)
+      : path.resolve(__dirname, "../llm-cache"),
+    ttl_seconds:
+      Number(process.env.LLM_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS,
+    max_bytes:
+      (Number(process.env.LLM_CACHE_MAX_MB) || DEFAULT_MAX_MB) * 1024 * 1024,
+  };
+}
+
+/**
+ * Whether a request reads and writes the cache. `cache: false` bypasses it,
+ * `cache: true` uses it even when LLM_CACHE is off.
+ */
+export function useCache(value: any) {
+  if (value === undefined || value === null || value === "") {
+    return cacheConfig().enabled;
+  }
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  throw new Error("cache must be true or false");
+}
+
+export function cacheKey(
+  provider: string,
+  model: string,
+  request: GenerationRequest
+) {
+  return crypto
+    .createHash("sha256")
+    .update(
+      canonicalJson({
+        provider,
+        model,
+        prompt: request.prompt,
+        max_output_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        response_schema: request.responseSchema ?? null,
+      })
+    )
+    .digest("hex");
+}
+
+function entryFiles(dir: string) {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => {
+      const file = path.join(dir, name);
+      const stat = fs.statSync(file);
+      return { file, size: stat.size, used: stat.mtimeMs };
+    });
+}
+
+function readEntry(config: CacheConfig, key: string): CacheEntry | null {
+  const file = path.join(config.dir, `${key}.json`);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  const entry: CacheEntry = JSON.parse(fs.readFileSync(file, "utf-8"));
+  const age = (Date.now() - new Date(entry.created_at).getTime()) / 1000;
+  if (age > config.ttl_seconds) {
+    fs.rmSync(file, { force: true });
+    counters.expired++;
+    return null;
+  }
+  // The modification time orders entries for eviction
+  const now = new Date();
+  fs.utimesSync(file, now, now);
+  return entry;
+}
+
+// Drop the least recently used entries until the store fits max_bytes
+function evict(config: CacheConfig) {
+  const files = entryFiles(config.dir).sort((a, b) => a.used - b.used);
+  let total = files.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of files) {
+    if (total <= config.max_bytes) break;
+    fs.rmSync(entry.file, { force: true });
+    total -= entry.size;
+    counters.evicted++;
+  }
+}
+
+function writeEntry(config: CacheConfig, entry: CacheEntry) {
+  fs.mkdirSync(config.dir, { recursive: true });
+  const file = path.join(config.dir, `${entry.key}.json`);
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry));
+  fs.renameSync(tmp, file);
+  counters.writes++;
+  evict(config);
+}
+
+/**
+ * Call the provider through the cache. Hits come back with `cached: true`
+ * and were not billed; empty responses are never stored.
+ */
+export async function cachedGenerate(
+  provider: LLMProvider,
+  model: string,
+  request: GenerationRequest
+): Promise<GenerationResult> {
+  const config = cacheConfig();
+  const key = cacheKey(provider.name, model, request);
+
+  const entry = readEntry(config, key);
+  if (entry) {
+    counters.hits++;
+    return { ...entry.result, cached: true };
+  }
+  counters.misses++;
+
+  const result = await provider.generate(model, request);
+  if (result.text) {
+    writeEntry(config, {
+      key,
+      provider: provider.name,
+      model,
+      result,
+      created_at: new Date().toISOString(),
+    });
+  }
+  return result;
+}
+
+export function cacheStats() {
+  const config = cacheConfig();
+  const files = entryFiles(config.dir);
+  const lookups = counters.hits + counters.misses;
+  return {
+    enabled: config.enabled,
+    ...counters,
+    hit_rate: lookups > 0 ? Number((counters.hits / lookups).toFixed(4)) : 0,
+    entries: files.length,
+    bytes: files.reduce((sum, entry) => sum + entry.size, 0),
+    max_bytes: config.max_bytes,
+    ttl_seconds: config.ttl_seconds,
+  };
+}
+
+export function clearCache() {
+  const files = entryFiles(cacheConfig().dir);
+  files.forEach((entry) => fs.rmSync(entry.file, { force: true }));
+  return files.length;
+}
@@ -0,0 +1,280 @@
+import axios from "axios";
+import crypto from "crypto";
+import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import * as dotenv from "dotenv";
+import { JsonSchema, toGeminiSchema } from "./json-schema";
+import { TokenUsage, estimateTokens } from "./token-usage";
+
+dotenv.config();
+
+export const DEFAULT_AI_MODEL = "gemini-2.5-flash";
+
+export interface GenerationRequest {
+  prompt: string;
+  maxOutputTokens: number;
+  temperature: number;
+  // JSON Schema describing the expected JSON object
+  responseSchema?: JsonSchema;
+}
+
+export interface GenerationResult {
+  text: string;
+  provider: string;
+  model: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: TokenUsage;
+  // Served from the response cache instead of the provider
+  cached?: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  generate(
+    model: string,
+    request: GenerationRequest
+  ): Promise<GenerationResult>;
+}
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+// --- Gemini ---
+class GeminiProvider implements LLMProvider {
+  name = "gemini";
+  private models = new Map<string, GenerativeModel>();
+
+  private getModel(model: string) {
+    let instance = this.models.get(model);
+    if (!instance) {
+      const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || "");
+      instance = genAI.getGenerativeModel({ model });
+      this.models.set(model, instance);
+    }
+    return instance;
+  }
+
+  async generate(model: string, request: GenerationRequest) {
+    const response = await this.getModel(model).generateContent({
+      contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        responseMimeType: "application/json",
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        responseSchema: request.responseSchema
+          ? toGeminiSchema(request.responseSchema)
+          : undefined,
+      },
+    });
+
+    const usage = response.response.usageMetadata;
+    return {
+      text: response.response.text(),
+      provider: this.name,
+      model,
+      usage: usage && {
+        input_tokens: usage.promptTokenCount || 0,
+        output_tokens: usage.candidatesTokenCount || 0,
+        total_tokens: usage.totalTokenCount || 0,
+      },
+    };
+  }
+}
+
+// --- Any endpoint speaking the OpenAI chat completions protocol ---
+class OpenAICompatibleProvider implements LLMProvider {
+  name = "openai";
+
+  async generate(model: string, request: GenerationRequest) {
+    const baseUrl = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+    const apiKey = process.env.OPENAI_API_KEY || "";
+
+    const response = await axios.post(
+      `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        model,
+        messages: [{ role: "user", content: request.prompt }],
+        max_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        response_format: request.responseSchema
+          ? {
+              type: "json_schema",
+              json_schema: {
+                name: "synthetic_row",
+                schema: request.responseSchema,
+              },
+            }
+          : { type: "json_object" },
+      },
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: 120000,
+      }
+    );
+
+    const text = response.data?.choices?.[0]?.message?.content || "";
+    const usage = response.data?.usage;
+    // Servers report the concrete model that answered (e.g. a dated snapshot)
+    return {
+      text,
+      provider: this.name,
+      model: response.data?.model || model,
+      usage: usage && {
+        input_tokens: usage.prompt_tokens || 0,
+        output_tokens: usage.completion_tokens || 0,
+        total_tokens:
+          usage.total_tokens ||
+          (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+      },
+    };
+  }
+}
+
+// --- Deterministic offline provider for tests and local runs ---
+const LOCAL_WORDS = [
+  "patient",
+  "reports",
+  "history",
+  "mild",
+  "persistent",
+  "symptoms",
+  "follow-up",
+  "assessment",
+  "recommended",
+  "stable",
+  "review",
+  "noted",
+  "treatment",
+  "plan",
+  "evaluation",
+  "ongoing",
+];
+
+class LocalProvider implements LLMProvider {
+  name = "local";
+
+  async generate(model: string, request: GenerationRequest) {
+    const seed = crypto
+      .createHash("sha256")
+      .update(`${model}\n${request.prompt}`)
+      .digest();
+
+    const schema = request.responseSchema || {
+      type: "object",
+      properties: { text: { type: "string" } },
+    };
+
+    const text = JSON.stringify(sampleFromSchema(schema, seed, ""));
+    const input_tokens = estimateTokens(request.prompt);
+    const output_tokens = estimateTokens(text);
+    return {
+      text,
+      provider: this.name,
+      model,
+      usage: {
+        input_tokens,
+        output_tokens,
+        total_tokens: input_tokens + output_tokens,
+      },
+    };
+  }
+}
+
+// Build a value that satisfies the schema, driven by the seed bytes
+function sampleFromSchema(schema: JsonSchema, seed: Buffer, key: string): any {
+  const byte = (offset: number) =>
+    seed[(offset + key.length * 7) % seed.length];
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (schema.enum) {
+    return schema.enum[byte(0) % schema.enum.length];
+  }
+  if (types.includes("object")) {
+    return Object.fromEntries(
+      Object.entries(schema.properties || {}).map(([name, child]) => [
+        name,
+        sampleFromSchema(child as JsonSchema, seed, name),
+      ])
+    );
+  }
+  if (types.includes("array")) {
+    const length = Math.max(
+      schema.minItems || 1,
+      Math.min(schema.maxItems || 3, 3)
+    );
+    return Array.from({ length }, (_, i) =>
+      sampleFromSchema(schema.items || { type: "string" }, seed, `${key}${i}`)
+    );
+  }
+  if (types.includes("integer") || types.includes("number")) {
+    const min = schema.minimum ?? 0;
+    const max = schema.maximum ?? min + 100;
+    const value = min + (byte(0) / 255) * (max - min);
+    return types.includes("integer") ? Math.round(value) : value;
+  }
+  if (types.includes("boolean")) {
+    return byte(0) % 2 === 0;
+  }
+
+  const words = Array.from(
+    { length: 8 },
+    (_, i) => LOCAL_WORDS[byte(i) % LOCAL_WORDS.length]
+  );
+  let text = `${key || "value"}: ${words.join(" ")}`;
+  if (schema.maxLength !== undefined) text = text.slice(0, schema.maxLength);
+  return text;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function listProviders() {
+  return Array.from(providers.keys());
+}
+
+registerProvider(new GeminiProvider());
+registerProvider(new OpenAICompatibleProvider());
+registerProvider(new LocalProvider());
+
+/**
+ * Map an `ai_model` value onto a provider.
+ *
+ * Accepts an explicit `provider:model` pair (e.g. `openai:llama-3-70b`) or a
+ * bare model name, in which case the provider is inferred from the name.
+ * Display names such as "Gemini 2.5 Flash" are normalized first.
+ */
+export function resolveModel(ai_model?: string): ResolvedModel {
+  const raw = (ai_model || DEFAULT_AI_MODEL).trim();
+
+  const separator = raw.indexOf(":");
+  if (separator > 0) {
+    const providerName = raw.slice(0, separator).toLowerCase();
+    const provider = providers.get(providerName);
+    if (!provider) {
+      throw new Error(`Unknown AI provider: ${providerName}`);
+    }
+    const model = raw.slice(separator + 1).trim();
+    if (!model) {
+      throw new Error(`ai_model "${raw}" names no model`);
+    }
+    return { provider, model };
+  }
+
+  const model = raw.toLowerCase().replace(/\s+/g, "-");
+
+  if (model.startsWith("gemini")) {
+    return { provider: providers.get("gemini")!, model };
+  }
+  if (model === "local" || model === "mock" || model.startsWith("local-")) {
+    return { provider: providers.get("local")!, model };
+  }
+  if (/^(gpt-|o\d)/.test(model) || process.env.OPENAI_BASE_URL) {
+    return { provider: providers.get("openai")!, model: raw };
+  }
+
+  throw new Error(`Cannot resolve a provider for ai_model "${raw}"`);
+}
@@ -0,0 +1,267 @@
+// Measures how much of a source text survives in its synthetic counterpart.
+
+export type LeakageAction = "reject" | "flag";
+
+export interface LeakageConfig {
+  // Rows scoring above this are rejected or flagged
+  threshold: number;
+  action: LeakageAction;
+}
+
+export interface LeakedEntity {
+  type: "name" | "date" | "id" | "email" | "phone";
+  value: string;
+}
+
+export interface LeakageScore {
+  ngram_overlap: number;
+  longest_common_run: number;
+  longest_common_ratio: number;
+  leaked_entities: LeakedEntity[];
+  score: number;
+  status: "pass" | "flagged" | "rejected";
+}
+
+export const DEFAULT_LEAKAGE_CONFIG: LeakageConfig = {
+  threshold: 0.5,
+  action: "reject",
+};
+
+const NGRAM_SIZE = 3;
+
+const ENTITY_PATTERNS: Array<{ type: LeakedEntity["type"]; pattern: RegExp }> =
+  [
+    { type: "email", pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g },
+    {
+      type: "phone",
+      pattern: /(?:\+?\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+    },
+    {
+      type: "date",
+      pattern:
+        /\b(?:\d{1,4}[/-]\d{1,2}[/-]\d{1,4}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4})\b/gi,
+    },
+    { type: "id", pattern: /\b[A-Z]{0,4}[-#]?\d{5,}\b/g },
+    {
+      type: "name",
+      pattern:
+        /\b(?:(?:Mr|Mrs|Ms|Dr|Prof)\.? [A-Z][a-z]+(?: [A-Z][a-z]+)?|[A-Z][a-z]+ [A-Z][a-z]+(?: [A-Z][a-z]+)?)\b/g,
+    },
+  ];
+
+// Capitalized pairs that name departments and places rather than people
+const NON_PERSON_WORDS = new Set([
+  "hospital",
+  "clinic",
+  "center",
+  "centre",
+  "department",
+  "medicine",
+  "medical",
+  "surgery",
+  "internal",
+  "general",
+  "emergency",
+  "university",
+  "health",
+  "care",
+  "unit",
+  "services",
+]);
+
+// Output strings this short are labels (a specialty, a category) rather
+// than free text, and are not searched for names
+const LABEL_MAX_WORDS = 3;
+
+function tokenize(text: string) {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+function ngrams(tokens: string[], n: number) {
+  const result = new Set<string>();
+  for (let i = 0; i + n <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + n).join(" "));
+  }
+  return result;
+}
+
+// Share of the synthetic text's n-grams that also occur in the source
+export function ngramOverlap(
+  source: string,
+  synthetic: string,
+  n = NGRAM_SIZE
+) {
+  const syntheticGrams = ngrams(tokenize(synthetic), n);
+  if (syntheticGrams.size === 0) return 0;
+  const sourceGrams = ngrams(tokenize(source), n);
+  let shared = 0;
+  syntheticGrams.forEach((gram) => {
+    if (sourceGrams.has(gram)) shared++;
+  });
+  return shared / syntheticGrams.size;
+}
+
+// Longest run of consecutive words copied from the source
+export function longestCommonRun(source: string, synthetic: string) {
+  const a = tokenize(source);
+  const b = tokenize(synthetic);
+  let best = 0;
+  let previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1] === b[j - 1]) {
+        current[j] = previous[j - 1] + 1;
+        if (current[j] > best) best = current[j];
+      }
+    }
+    previous = current;
+  }
+  return best;
+}
+
+export function extractEntities(text: string): LeakedEntity[] {
+  const seen = new Set<string>();
+  const entities: LeakedEntity[] = [];
+  ENTITY_PATTERNS.forEach(({ type, pattern }) => {
+    (text.match(pattern) || []).forEach((value) => {
+      if (
+        type === "name" &&
+        value
+          .split(" ")
+          .some((word) => NON_PERSON_WORDS.has(word.toLowerCase()))
+      ) {
+        return;
+      }
+      const key = `${type}:${value.trim().toLowerCase()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        entities.push({ type, value: value.trim() });
+      }
+    });
+  });
+  return entities;
+}
+
+// A name match can swallow a leading capitalized word ("Patient John Smith"),
+// so names also count as leaked when any two adjacent words reappear
+function entityForms(entity: LeakedEntity) {
+  if (entity.type !== "name") return [entity.value];
+  const words = entity.value.split(" ");
+  const pairs = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+  return [entity.value, ...pairs];
+}
+
+// All string values of a synthetic output, in key order
+export function outputText(output: any): string {
+  if (typeof output === "string") return output;
+  if (Array.isArray(output)) return output.map(outputText).join(" ");
+  if (output && typeof output === "object") {
+    return Object.values(output).map(outputText).join(" ");
+  }
+  return "";
+}
+
+// String values of a synthetic output long enough to be free text
+export function freeText(output: any): string {
+  if (typeof output === "string") {
+    return output.trim().split(/\s+/).length > LABEL_MAX_WORDS ? output : "";
+  }
+  if (Array.isArray(output)) return output.map(freeText).join(" ");
+  if (output && typeof output === "object") {
+    return Object.values(output).map(freeText).join(" ");
+  }
+  return "";
+}
+
+/**
+ * Score one row. The score is the worst of the n-gram overlap and the
+ * longest copied run relative to the source length; any name, date or ID
+ * from the source reappearing verbatim scores 1.
+ */
+export function scoreLeakage(
+  source: string,
+  synthetic_output: any,
+  config: LeakageConfig = DEFAULT_LEAKAGE_CONFIG
+): LeakageScore {
+  const synthetic = outputText(synthetic_output);
+  const sourceLength = tokenize(source).length;
+
+  const ngram_overlap = ngramOverlap(source, synthetic);
+  const longest_common_run = longestCommonRun(source, synthetic);
+  const longest_common_ratio =
+    sourceLength > 0 ? longest_common_run / sourceLength : 0;
+
+  // Names are only looked for in free text, so an output that echoes a
+  // label such as a specialty is not taken for a leaked name
+  const lowered = synthetic.toLowerCase();
+  const loweredFreeText = freeText(synthetic_output).toLowerCase();
+  const leaked_entities = extractEntities(source).filter((entity) =>
+    entityForms(entity).some((form) =>
+      (entity.type === "name" ? loweredFreeText : lowered).includes(
+        form.toLowerCase()
+      )
+    )
+  );
+
+  const score = Math.max(
+    ngram_overlap,
+    longest_common_ratio,
+    leaked_entities.length > 0 ? 1 : 0
+  );
+
+  return {
+    ngram_overlap: Number(ngram_overlap.toFixed(4)),
+    longest_common_run,
+    longest_common_ratio: Number(longest_common_ratio.toFixed(4)),
+    leaked_entities,
+    score: Number(score.toFixed(4)),
+    status:
+      score > config.threshold
+        ? config.action === "reject"
+          ? "rejected"
+          : "flagged"
+        : "pass",
+  };
+}
+
+// Aggregate report stored in the dataset metadata
+export function buildPrivacyReport(
+  scores: LeakageScore[],
+  config: LeakageConfig,
+  rejected = 0
+) {
+  const values = scores.map((s) => s.score);
+  const mean = values.length
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+
+  const entityLeaks: Record<string, number> = {};
+  scores.forEach((s) =>
+    s.leaked_entities.forEach((e) => {
+      entityLeaks[e.type] = (entityLeaks[e.type] || 0) + 1;
+    })
+  );
+
+  return {
+    method: `ngram-${NGRAM_SIZE}+longest-common-run+entities`,
+    threshold: config.threshold,
+    action: config.action,
+    rows_checked: scores.length + rejected,
+    rows_published: scores.length,
+    rejected,
+    flagged: scores.filter((s) => s.status === "flagged").length,
+    mean_score: Number(mean.toFixed(4)),
+    max_score: values.length ? Math.max(...values) : 0,
+    mean_ngram_overlap: Number(
+      (
+        scores.reduce((sum, s) => sum + s.ngram_overlap, 0) /
+        (scores.length || 1)
+      ).toFixed(4)
+    ),
+    max_longest_common_run: scores.length
+      ? Math.max(...scores.map((s) => s.longest_common_run))
+      : 0,
+    entity_leaks: entityLeaks,
+  };
+}
@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+
+// Local store of prompt A/B experiments run through /api/test-prompt
+const EXPERIMENTS_FILE = path.resolve(__dirname, "../experiments.json");
+
+export const MAX_VARIANTS = 6;
+
+// One prompt variant: a template, optionally with its instructions replaced,
+// and the generation settings to run it with
+export interface ExperimentVariant {
+  name: string;
+  template_id?: string;
+  template_version?: number;
+  instructions?: string;
+  input_label?: string;
+  ai_model?: string;
+  temperature?: number;
+}
+
+export interface VariantScores {
+  // Share of attempts whose output passed schema validation
+  validation_pass_rate: number;
+  // Mean leakage score of the validated outputs; lower is better
+  leakage_mean: number;
+  leakage_rejected: number;
+  diversity_score: number;
+  // Mean time per model call
+  latency_ms: number;
+  // Mean of pass rate, 1 - leakage and diversity
+  score: number;
+}
+
+export interface VariantResult {
+  name: string;
+  variant: ExperimentVariant;
+  template: { id: string; version: number };
+  scores: VariantScores;
+  samples: any[];
+  rejected: any[];
+  stats: Record<string, any>;
+  error?: string;
+}
+
+export interface Experiment {
+  id: string;
+  domain: string;
+  input_text: string;
+  sample_size: number;
+  results: VariantResult[];
+  winner: string | null;
+  promoted: {
+    variant: string;
+    template_id: string;
+    template_version: number;
+    at: string;
+  } | null;
+  created_at: string;
+}
+
+function readExperiments(): Experiment[] {
+  if (!fs.existsSync(EXPERIMENTS_FILE)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(EXPERIMENTS_FILE, "utf-8"));
+}
+
+function writeExperiments(experiments: Experiment[]) {
+  const tmp = `${EXPERIMENTS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(experiments));
+  fs.renameSync(tmp, EXPERIMENTS_FILE);
+}
+
+/**
+ * Validate the variants of an experiment request. Names default to
+ * "A", "B", ... and must be unique.
+ */
+export function normalizeVariants(variants: any[]): ExperimentVariant[] {
+  if (!Array.isArray(variants) || variants.length < 2) {
+    throw new Error("variants must be an array of at least 2 variants");
+  }
+  if (variants.length > MAX_VARIANTS) {
+    throw new Error(`variants is limited to ${MAX_VARIANTS} entries`);
+  }
+
+  const names = new Set<string>();
+  return variants.map((variant, index) => {
+    if (!variant || typeof variant !== "object") {
+      throw new Error(`variants[${index}] must be an object`);
+    }
+    const name = String(variant.name || String.fromCharCode(65 + index));
+    if (names.has(name)) {
+      throw new Error(`Duplicate variant name "${name}"`);
+    }
+    names.add(name);
+    return { ...variant, name };
+  });
+}
+
+export function variantScore(
+  scores: Omit<VariantScores, "score">
+): VariantScores {
+  const score =
+    (scores.validation_pass_rate +
+      (1 - scores.leakage_mean) +
+      scores.diversity_score) /
+    3;
+  return { ...scores, score: Number(score.toFixed(4)) };
+}
+
+// Highest score wins; equal scores go to the faster variant
+export function pickWinner(results: VariantResult[]): string | null {
+  const ranked = results
+    .filter((result) => !result.error && result.samples.length > 0)
+    .sort(
+      (a, b) =>
+        b.scores.score - a.scores.score ||
+        a.scores.latency_ms - b.scores.latency_ms
+    );
+  return ranked.length > 0 ? ranked[0].name : null;
+}
+
+export function saveExperiment(
+  experiment: Omit<Experiment, "id" | "promoted" | "created_at">
+): Experiment {
+  const saved: Experiment = {
+    ...experiment,
+    id: crypto.randomUUID(),
+    promoted: null,
+    created_at: new Date().toISOString(),
+  };
+  writeExperiments([...readExperiments(), saved]);
+  return saved;
+}
+
+export function getExperiment(id: string): Experiment | null {
+  return readExperiments().find((experiment) => experiment.id === id) || null;
+}
+
+export function listExperiments(): Experiment[] {
+  return readExperiments().sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+export function markPromoted(
+  id: string,
+  promoted: NonNullable<Experiment["promoted"]>
+) {
+  const experiments = readExperiments();
+  const experiment = experiments.find((e) => e.id === id);
+  if (experiment) {
+    experiment.promoted = promoted;
+    writeExperiments(experiments);
+  }
+  return experiment || null;
+}
@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import * as path from "path";
+import { JsonSchema } from "./json-schema";
+
+// Built-in templates ship with the repository. Versions saved at runtime and
+// the promoted defaults live in a local store next to it, so the tracked
+// directory is never written to.
+const TEMPLATES_DIR = path.resolve(__dirname, "../templates");
+const USER_TEMPLATES_DIR = path.resolve(__dirname, "../user-templates");
+const TEMPLATE_FILE_PATTERN = /^(.+)\.v(\d+)\.json$/;
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+// Templates promoted as the default for a domain, e.g. by an experiment
+const DEFAULTS_FILE = path.join(USER_TEMPLATES_DIR, "defaults.json");
+
+export const DEFAULT_TEMPLATE_ID = "medical";
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  domains: string[];
+  description: string;
+  instructions: string;
+  input_label: string;
+  // Output key -> description shown to the model
+  output_keys: Record<string, string>;
+  // Output key holding the row's category, compared with source labels
+  label_key?: string;
+  examples: Record<string, string>[];
+}
+
+// Templates are stored as <id>.v<version>.json in either directory
+export function loadTemplates(): PromptTemplate[] {
+  return [TEMPLATES_DIR, USER_TEMPLATES_DIR]
+    .filter((dir) => fs.existsSync(dir))
+    .flatMap((dir) =>
+      fs
+        .readdirSync(dir)
+        .filter((file) => TEMPLATE_FILE_PATTERN.test(file))
+        .map((file) => {
+          const [, id, version] = file.match(TEMPLATE_FILE_PATTERN)!;
+          const template = JSON.parse(
+            fs.readFileSync(path.join(dir, file), "utf8")
+          );
+          return {
+            ...template,
+            id,
+            version: Number(version),
+          } as PromptTemplate;
+        })
+    )
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
+
+// Latest version of every template, plus the versions available for each id
+export function listTemplates() {
+  const byId = new Map<string, PromptTemplate[]>();
+  loadTemplates().forEach((template) => {
+    byId.set(template.id, [...(byId.get(template.id) || []), template]);
+  });
+
+  return Array.from(byId.values()).map((versions) => {
+    const latest = versions[versions.length - 1];
+    return {
+      id: latest.id,
+      version: latest.version,
+      versions: versions.map((t) => t.version),
+      domains: latest.domains,
+      description: latest.description,
+      output_keys: latest.output_keys,
+    };
+  });
+}
+
+export function getTemplate(id: string, version?: number): PromptTemplate {
+  const versions = loadTemplates().filter((t) => t.id === id);
+  if (versions.length === 0) {
+    throw new Error(`Unknown template: ${id}`);
+  }
+
+  if (version === undefined) {
+    return versions[versions.length - 1];
+  }
+
+  const template = versions.find((t) => t.version === Number(version));
+  if (!template) {
+    throw new Error(`Template ${id} has no version ${version}`);
+  }
+  return template;
+}
+
+export interface TemplateReference {
+  template_id: string;
+  template_version: number;
+}
+
+export function getDomainDefaults(): Record<string, TemplateReference> {
+  if (!fs.existsSync(DEFAULTS_FILE)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(DEFAULTS_FILE, "utf8"));
+}
+
+export function setDomainDefault(domain: string, reference: TemplateReference) {
+  // Fails early on a reference to a missing template
+  getTemplate(reference.template_id, reference.template_version);
+  const defaults = {
+    ...getDomainDefaults(),
+    [domain.toLowerCase()]: reference,
+  };
+  fs.mkdirSync(USER_TEMPLATES_DIR, { recursive: true });
+  const tmp = `${DEFAULTS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(defaults, null, 2) + "\n");
+  fs.renameSync(tmp, DEFAULTS_FILE);
+}
+
+// Store a template as the next version of its id
+export function saveTemplateVersion(
+  template: Omit<PromptTemplate, "version">
+): PromptTemplate {
+  if (!TEMPLATE_ID_PATTERN.test(template.id)) {
+    throw new Error(`Invalid template id "${template.id}"`);
+  }
+  const versions = loadTemplates().filter((t) => t.id === template.id);
+  const version =
+    versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+  const { id, ...content } = template;
+  fs.mkdirSync(USER_TEMPLATES_DIR, { recursive: true });
+  fs.writeFileSync(
+    path.join(USER_TEMPLATES_DIR, `${id}.v${version}.json`),
+    JSON.stringify({ id, version, ...content }, null, 2) + "\n"
+  );
+  return { ...template, version };
+}
+
+/**
+ * Pick the template for a request: an explicit `template_id` wins, then a
+ * template promoted for the request's domain, then the latest template that
+ * lists the domain, otherwise the default.
+ */
+export function selectTemplate(options: {
+  template_id?: string;
+  template_version?: number;
+  domain?: string;
+}): PromptTemplate {
+  if (options.template_id) {
+    return getTemplate(options.template_id, options.template_version);
+  }
+
+  const domain = (options.domain || "").toLowerCase();
+  const promoted = getDomainDefaults()[domain];
+  if (promoted) {
+    return getTemplate(promoted.template_id, promoted.template_version);
+  }
+
+  const match = loadTemplates()
+    .filter((t) => t.id === domain || t.domains.includes(domain))
+    .pop();
+
+  return match || getTemplate(DEFAULT_TEMPLATE_ID);
+}
+
+/**
+ * Render the prompt for one source text. When the request supplies its own
+ * row schema, the schema replaces the template's output keys and examples.
+ * A variation hint is added when the same source is used more than once.
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  input_text: string,
+  schema?: JsonSchema,
+  variation?: string
+) {
+  const header = `${template.instructions}
+
+${template.input_label}:
+"${input_text}"
+${variation ? `\n${variation}\n` : ""}`;
+
+  if (schema) {
+    const keys = Object.entries(schema.properties || {})
+      .map(
+        ([key, child]: [string, any]) =>
+          `- "${key}"${child.description ? `: ${child.description}` : ""}`
+      )
+      .join("\n");
+
+    return `${header}
+Please provide the output as a JSON object with the following keys:
+${keys}
+
+The object must validate against this JSON Schema:
+${JSON.stringify(schema, null, 2)}
+`;
+  }
+
+  const keys = Object.entries(template.output_keys)
+    .map(([key, description]) => `- "${key}": ${description}`)
+    .join("\n");
+
+  const examples = template.examples
+    .map((example) => JSON.stringify(example, null, 2))
+    .join("\n\n");
+
+  return `${header}
+Please provide the output in a valid JSON format with the following keys:
+${keys}
+
+Example Output:
+${examples}
+`;
+}
+
+// JSON Schema for the object the template asks the model to return
+export function templateResponseSchema(template: PromptTemplate): JsonSchema {
+  const keys = Object.keys(template.output_keys);
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      keys.map((key) => [key, { type: "string" }])
+    ),
+    required: keys,
+  };
+}
@@ -0,0 +1,157 @@
+import crypto from "crypto";
+
+// Controls how much of the source text leaves the server with a dataset.
+// Metadata and the on-chain source_url are public under every profile, so
+// they never carry the source text itself.
+export type PublicationProfile =
+  | "synthetic-only"
+  | "with-hashed-source"
+  | "full-private";
+
+export const PUBLICATION_PROFILES: PublicationProfile[] = [
+  "synthetic-only",
+  "with-hashed-source",
+  "full-private",
+];
+
+export const DEFAULT_PUBLICATION_PROFILE: PublicationProfile = "synthetic-only";
+
+// Placeholder used on-chain when no reference to the source is published
+export const NO_SOURCE_URL = "SagaSynth Generated";
+
+export interface PublishableRow {
+  original_text: string;
+  synthetic_output: any;
+  privacy?: { leaked_entities?: Array<{ type: string; value?: string }> };
+  [key: string]: any;
+}
+
+export interface Publication {
+  profile: PublicationProfile;
+  rows: any[];
+  metadata: Record<string, any>;
+  source_url: string;
+}
+
+export function resolvePublicationProfile(
+  profile: string | undefined,
+  visibility?: string
+): PublicationProfile {
+  const resolved = (profile ||
+    DEFAULT_PUBLICATION_PROFILE) as PublicationProfile;
+  if (!PUBLICATION_PROFILES.includes(resolved)) {
+    throw new Error(
+      `Unknown publication_profile "${profile}". Available: ${PUBLICATION_PROFILES.join(
+        ", "
+      )}`
+    );
+  }
+  if (resolved === "full-private" && visibility !== "private") {
+    throw new Error(
+      'publication_profile "full-private" requires visibility "private"'
+    );
+  }
+  return resolved;
+}
+
+export function sourceHash(text: string) {
+  return `sha256:${crypto.createHash("sha256").update(text).digest("hex")}`;
+}
+
+function publishableRow(row: PublishableRow, profile: PublicationProfile) {
+  if (profile === "full-private") {
+    return row;
+  }
+
+  const { original_text, privacy, ...rest } = row;
+  return {
+    ...rest,
+    ...(profile === "with-hashed-source"
+      ? { source_hash: sourceHash(original_text) }
+      : {}),
+    // Leaked entity values are copies of the source
+    ...(privacy
+      ? {
+          privacy: {
+            ...privacy,
+            leaked_entities: (privacy.leaked_entities || []).map(
+              ({ type }) => ({ type })
+            ),
+          },
+        }
+      : {}),
+  };
+}
+
+// Shorter inputs (a single word, a test string) would match by coincidence
+const MIN_SOURCE_LENGTH = 16;
+
+// Escaped the way it would appear inside a JSON payload
+const jsonFragment = (text: string) => JSON.stringify(text).slice(1, -1);
+
+/**
+ * Throw if any of the source texts appears in a payload about to be
+ * uploaded. This is the last line of defence against a field that copies the
+ * input into public metadata.
+ */
+export function assertNoSourceText(payload: any, sources: string[]) {
+  const serialized = JSON.stringify(payload);
+  const leaked = sources.find(
+    (source) =>
+      source.trim().length >= MIN_SOURCE_LENGTH &&
+      serialized.includes(jsonFragment(source))
+  );
+  if (leaked !== undefined) {
+    throw new Error("Refusing to publish: payload contains source text");
+  }
+}
+
+/**
+ * Shape the rows, metadata and on-chain source_url of a dataset for the
+ * chosen profile. Everything returned here is safe to upload. Datasets built
+ * from a batch of source records have no single input_text; their hash
+ * covers the distinct source texts in order.
+ */
+export function preparePublication(
+  rows: PublishableRow[],
+  input_text: string | undefined,
+  metadata: Record<string, any>,
+  profile: PublicationProfile = DEFAULT_PUBLICATION_PROFILE
+): Publication {
+  const { input_text: _input, ...publicMetadata } = metadata;
+  const hashed = profile !== "synthetic-only";
+  const originals = Array.from(new Set(rows.map((row) => row.original_text)));
+  const hash = sourceHash(
+    input_text !== undefined ? input_text : originals.join("\n")
+  );
+  const hashKey =
+    input_text !== undefined ? "input_text_hash" : "source_records_hash";
+
+  const publication: Publication = {
+    profile,
+    rows: rows.map((row) => publishableRow(row, profile)),
+    metadata: {
+      ...publicMetadata,
+      publication_profile: profile,
+      ...(hashed ? { [hashKey]: hash } : {}),
+    },
+    source_url: hashed ? hash : NO_SOURCE_URL,
+  };
+
+  const sources = [
+    ...(input_text !== undefined ? [input_text] : []),
+    ...originals,
+  ];
+  assertNoSourceText(publication.metadata, sources);
+  assertNoSourceText(publication.source_url, sources);
+  // Outputs that copy the source are the leakage check's concern; here only
+  // the fields around them are checked
+  if (profile !== "full-private") {
+    assertNoSourceText(
+      publication.rows.map(({ synthetic_output, ...rest }) => rest),
+      sources
+    );
+  }
+
+  return publication;
+}
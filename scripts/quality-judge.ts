@@ -0,0 +1,200 @@
+import { JsonSchema } from "./json-schema";
+import { GenerationRequest, ResolvedModel } from "./llm-providers";
+import { PromptTemplate } from "./prompt-templates";
+
+// Second-pass scoring of generated rows by a model acting as judge. Schema
+// validation only proves the fields are there; the judge rates whether the
+// row makes sense.
+
+export interface JudgeConfig {
+  llm: ResolvedModel;
+  // Domain the rows are judged against
+  domain: string;
+  // Rows scoring below this are rejected; null only scores them
+  min_score: number | null;
+}
+
+export interface RubricCriterion {
+  name: string;
+  question: string;
+}
+
+export interface QualityScore {
+  // Per criterion, scaled from the judge's 1-5 to 0-1
+  criteria: Record<string, number>;
+  // Mean of the criteria
+  score: number;
+  rationale: string;
+  judge: { provider: string; model: string };
+  status: "pass" | "rejected";
+}
+
+const SCALE_MAX = 5;
+const JUDGE_MAX_OUTPUT_TOKENS = 600;
+
+/**
+ * The rubric for a template. Coherence and plausibility always apply; the
+ * label and explanation criteria only when the row has those fields.
+ */
+export function rubric(
+  template: PromptTemplate,
+  domain: string,
+  output: Record<string, any>
+): RubricCriterion[] {
+  const criteria: RubricCriterion[] = [
+    {
+      name: "coherence",
+      question:
+        "Is the row internally coherent, fluent and free of contradictions?",
+    },
+    {
+      name: "domain_plausibility",
+      question: `Is the content realistic and factually plausible for the ${domain} domain?`,
+    },
+  ];
+  if (template.label_key && output[template.label_key] !== undefined) {
+    criteria.push({
+      name: "label_consistency",
+      question: `Does "${template.label_key}" correctly describe the rest of the row?`,
+    });
+  }
+  if (output.explanation !== undefined) {
+    criteria.push({
+      name: "explanation_accuracy",
+      question: 'Does "explanation" accurately describe the rest of the row?',
+    });
+  }
+  return criteria;
+}
+
+function judgeSchema(criteria: RubricCriterion[]): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      ...Object.fromEntries(
+        criteria.map(({ name }) => [
+          name,
+          { type: "integer", minimum: 1, maximum: SCALE_MAX },
+        ])
+      ),
+      rationale: { type: "string", maxLength: 500 },
+    },
+    required: [...criteria.map(({ name }) => name), "rationale"],
+    additionalProperties: false,
+  };
+}
+
+// The judge sees the generated row only, never the source text
+export function renderJudgePrompt(
+  criteria: RubricCriterion[],
+  domain: string,
+  output: Record<string, any>
+) {
+  const questions = criteria
+    .map(({ name, question }) => `- "${name}": ${question}`)
+    .join("\n");
+
+  return `You are reviewing a synthetic ${domain} data row for quality.
+Score each criterion from 1 (very poor) to ${SCALE_MAX} (excellent) and give a one-sentence rationale.
+
+Criteria:
+${questions}
+
+Row:
+${JSON.stringify(output, null, 2)}
+`;
+}
+
+export function judgeRequest(
+  criteria: RubricCriterion[],
+  domain: string,
+  output: Record<string, any>
+): GenerationRequest {
+  return {
+    prompt: renderJudgePrompt(criteria, domain, output),
+    maxOutputTokens: JUDGE_MAX_OUTPUT_TOKENS,
+    temperature: 0,
+    responseSchema: judgeSchema(criteria),
+  };
+}
+
+/**
+ * Turn the judge's answer into a quality score, rejected below min_score.
+ * Throws when the answer is missing a criterion; the attempt then fails and
+ * a new row is generated in its place rather than passed unjudged.
+ */
+export function parseJudgement(
+  criteria: RubricCriterion[],
+  text: string,
+  judge: QualityScore["judge"],
+  min_score: number | null
+): QualityScore {
+  const answer = JSON.parse(text);
+  const scores = Object.fromEntries(
+    criteria.map(({ name }) => {
+      const value = Number(answer[name]);
+      if (!(value >= 1 && value <= SCALE_MAX)) {
+        throw new Error(`Judge returned no valid score for ${name}`);
+      }
+      return [name, Number(((value - 1) / (SCALE_MAX - 1)).toFixed(4))];
+    })
+  );
+  const values = Object.values(scores);
+  const score = Number(
+    (values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(4)
+  );
+  return {
+    criteria: scores,
+    score,
+    rationale: String(answer.rationale || ""),
+    judge,
+    status: min_score !== null && score < min_score ? "rejected" : "pass",
+  };
+}
+
+export function resolveMinScore(value: any) {
+  if (value === undefined || value === null || value === "") return null;
+  const min_score = Number(value);
+  if (!(min_score >= 0 && min_score <= 1)) {
+    throw new Error("min_quality_score must be between 0 and 1");
+  }
+  return min_score;
+}
+
+// Dataset-level summary of the judge scores, for the metadata
+export function buildQualityReport(
+  scores: QualityScore[],
+  config: JudgeConfig,
+  rejected: number
+) {
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? Number(
+          (values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(4)
+        )
+      : null;
+  const names = Array.from(
+    new Set(scores.flatMap((score) => Object.keys(score.criteria)))
+  );
+  return {
+    judge: `${config.llm.provider.name}:${config.llm.model}`,
+    min_score: config.min_score,
+    rows_scored: scores.length,
+    rejected,
+    mean_score: mean(scores.map((score) => score.score)),
+    min_row_score:
+      scores.length > 0
+        ? Math.min(...scores.map((score) => score.score))
+        : null,
+    criteria: Object.fromEntries(
+      names.map((name) => [
+        name,
+        mean(
+          scores
+            .map((score) => score.criteria[name])
+            .filter((v) => v !== undefined)
+        ),
+      ])
+    ),
+  };
+}
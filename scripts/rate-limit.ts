@@ -0,0 +1,78 @@
+// Request pacing and retry helpers for calls to LLM providers.
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Spaces calls evenly so no more than `requestsPerMinute` start in any
+ * minute. Callers await `acquire()` before each request.
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+  private readonly interval: number;
+
+  constructor(requestsPerMinute: number) {
+    this.interval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  }
+
+  async acquire() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const TRANSIENT_MESSAGE =
+  /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|overloaded|rate limit|fetch failed|socket hang up/i;
+
+// Rate limits, server errors and dropped connections are worth retrying
+export function isTransientError(error: any): boolean {
+  const status =
+    error?.status ?? error?.response?.status ?? error?.statusCode ?? null;
+  if (status === 408 || status === 429 || (status >= 500 && status < 600)) {
+    return true;
+  }
+
+  const code = error?.code;
+  if (["ECONNRESET", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN"].includes(code)) {
+    return true;
+  }
+
+  return TRANSIENT_MESSAGE.test(String(error?.message || error));
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempt: number, options: RetryOptions) {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, options);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
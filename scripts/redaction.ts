@@ -0,0 +1,302 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+
+// Token maps that reverse a redaction. They stay on this machine and are
+// never uploaded or returned by the API.
+const TOKEN_MAPS_FILE = path.resolve(__dirname, "../redaction-maps.json");
+
+export interface PiiMatch {
+  type: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiDetector {
+  name: string;
+  detect(text: string): PiiMatch[];
+}
+
+export interface RedactionReport {
+  id: string;
+  detectors: string[];
+  total: number;
+  by_type: Record<string, number>;
+  // Tokens that replaced a value, without the value itself
+  tokens: Array<{ token: string; type: string }>;
+}
+
+export interface RedactionResult {
+  text: string;
+  report: RedactionReport;
+  // token -> original value; only ever persisted locally
+  tokens: Record<string, string>;
+}
+
+/**
+ * Detector built from regular expressions. A named `value` group narrows the
+ * match to the sensitive part, so labels such as "MRN:" or "Dr." stay in the
+ * text.
+ */
+class PatternDetector implements PiiDetector {
+  constructor(public name: string, private patterns: RegExp[]) {}
+
+  detect(text: string): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    this.patterns.forEach((pattern) => {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const value = match.groups?.value ?? match[0];
+        const start = match.index! + match[0].indexOf(value);
+        matches.push({
+          type: this.name,
+          start,
+          end: start + value.length,
+          value,
+        });
+      }
+    });
+    return matches;
+  }
+}
+
+const detectors = new Map<string, PiiDetector>();
+
+// Detectors that run whichever ones a request selects
+export const BASELINE_DETECTORS = ["email", "phone", "mrn"];
+
+export function registerDetector(detector: PiiDetector) {
+  detectors.set(detector.name, detector);
+}
+
+export function listDetectors() {
+  return Array.from(detectors.keys());
+}
+
+registerDetector(
+  new PatternDetector("email", [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g])
+);
+registerDetector(
+  new PatternDetector("mrn", [
+    /\b(?:MRN|[Mm]edical [Rr]ecord(?: [Nn]umber| [Nn]o\.?)?|[Pp]atient ID)\s*[:#-]?\s*(?<value>[A-Z0-9-]*\d[A-Z0-9-]{3,})\b/g,
+  ])
+);
+registerDetector(
+  new PatternDetector("account", [
+    /\b(?:[Aa]ccount|[Aa]cct|IBAN|[Rr]outing|[Cc]ard)(?:\s*(?:[Nn]umber|[Nn]o\.?|#))?\s*[:#-]?\s*(?<value>[A-Z]{0,4}\d[\d -]{4,}\d)\b/g,
+    /\b\d{4}[ -]\d{4}[ -]\d{4}[ -]\d{1,7}\b/g,
+    /\b\d{3}-\d{2}-\d{4}\b/g,
+  ])
+);
+registerDetector(
+  new PatternDetector("phone", [
+    /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  ])
+);
+registerDetector(
+  new PatternDetector("date", [
+    /\b\d{1,4}[/-]\d{1,2}[/-]\d{1,4}\b/g,
+    /\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}\b/g,
+    /\b\d{1,2} (?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{4}\b/g,
+  ])
+);
+registerDetector(
+  new PatternDetector("address", [
+    /\b\d{1,5}(?: [A-Z][a-z]+){1,3} (?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\b\.?(?:,? (?:Apt|Suite|Unit)\.? ?\w+)?(?:, [A-Z][a-z]+(?: [A-Z][a-z]+)*)?(?:,? [A-Z]{2})?(?: \d{5}(?:-\d{4})?)?/g,
+  ])
+);
+registerDetector(
+  new PatternDetector("name", [
+    /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.? (?<value>[A-Z][a-z]+(?: [A-Z][a-z]+)?)/g,
+    /\b(?:[Pp]atient|[Nn]ame|[Cc]lient|[Cc]ustomer|[Nn]amed)[:,]? (?<value>[A-Z][a-z]+(?: [A-Z]\.)?(?: [A-Z][a-z]+){0,2})/g,
+  ])
+);
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Detected values that reappear without their label (a surname on its own, a
+// repeated MRN) are redacted as well
+function repeatedMatches(text: string, matches: PiiMatch[]) {
+  const repeated: PiiMatch[] = [];
+  matches.forEach((match) => {
+    const forms =
+      match.type === "name"
+        ? [match.value, ...match.value.split(" ").filter((w) => w.length > 2)]
+        : [match.value];
+    forms.forEach((form) => {
+      const pattern = new RegExp(`\\b${escapeRegExp(form)}\\b`, "g");
+      for (const found of Array.from(text.matchAll(pattern))) {
+        repeated.push({
+          type: match.type,
+          start: found.index!,
+          end: found.index! + form.length,
+          value: form,
+        });
+      }
+    });
+  });
+  return repeated;
+}
+
+// Earliest match wins; on a tie the longer one does
+function selectMatches(matches: PiiMatch[]) {
+  const sorted = [...matches].sort(
+    (a, b) => a.start - b.start || b.end - a.end
+  );
+  const selected: PiiMatch[] = [];
+  let cursor = 0;
+  sorted.forEach((match) => {
+    if (match.start >= cursor && match.end > match.start) {
+      selected.push(match);
+      cursor = match.end;
+    }
+  });
+  return selected;
+}
+
+// "[EMAIL_2]" -> "email"
+const tokenType = (token: string) =>
+  token.slice(1, token.lastIndexOf("_")).toLowerCase();
+
+/**
+ * Replace every detected value with a stable token such as `[NAME_1]`.
+ * Repeated values share a token, so the text stays coherent for the model.
+ * Texts redacted together share one token map: the same person appearing in
+ * several source rows gets the same token in all of them. The baseline
+ * detectors run in addition to the ones selected. Passing the result of an
+ * earlier call continues its token map and report, so inputs redacted in two
+ * steps still share tokens.
+ */
+export function redactTexts(
+  texts: string[],
+  detectorNames: string[] = listDetectors(),
+  previous?: Omit<RedactionResult, "text">
+): Omit<RedactionResult, "text"> & { texts: string[] } {
+  detectorNames.forEach((name) => {
+    if (!detectors.has(name)) {
+      throw new Error(
+        `Unknown redaction detector "${name}". Available: ${listDetectors().join(
+          ", "
+        )}`
+      );
+    }
+  });
+  const active = listDetectors()
+    .filter(
+      (name) =>
+        BASELINE_DETECTORS.includes(name) || detectorNames.includes(name)
+    )
+    .map((name) => detectors.get(name)!);
+
+  const tokens: Record<string, string> = { ...previous?.tokens };
+  const byValue = new Map<string, string>();
+  const counters: Record<string, number> = {};
+  const by_type: Record<string, number> = { ...previous?.report.by_type };
+  let total = previous?.report.total || 0;
+  Object.keys(tokens).forEach((token) => {
+    const type = tokenType(token);
+    const count = Number(token.slice(token.lastIndexOf("_") + 1, -1));
+    byValue.set(`${type}:${tokens[token].toLowerCase()}`, token);
+    counters[type] = Math.max(counters[type] || 0, count);
+  });
+
+  const redactedTexts = texts.map((text) => {
+    const detected = active.flatMap((detector) => detector.detect(text));
+    const matches = selectMatches([
+      ...detected,
+      ...repeatedMatches(text, detected),
+    ]);
+
+    let redacted = "";
+    let cursor = 0;
+    matches.forEach((match) => {
+      const key = `${match.type}:${match.value.toLowerCase()}`;
+      let token = byValue.get(key);
+      if (!token) {
+        counters[match.type] = (counters[match.type] || 0) + 1;
+        token = `[${match.type.toUpperCase()}_${counters[match.type]}]`;
+        byValue.set(key, token);
+        tokens[token] = match.value;
+      }
+      by_type[match.type] = (by_type[match.type] || 0) + 1;
+      redacted += text.slice(cursor, match.start) + token;
+      cursor = match.end;
+    });
+    total += matches.length;
+    return redacted + text.slice(cursor);
+  });
+
+  return {
+    texts: redactedTexts,
+    report: {
+      id: previous?.report.id || crypto.randomUUID(),
+      detectors: Array.from(
+        new Set([
+          ...(previous?.report.detectors || []),
+          ...active.map((detector) => detector.name),
+        ])
+      ),
+      total,
+      by_type,
+      tokens: Object.keys(tokens).map((token) => ({
+        token,
+        type: tokenType(token),
+      })),
+    },
+    tokens,
+  };
+}
+
+export function redactText(
+  text: string,
+  detectorNames?: string[]
+): RedactionResult {
+  const { texts, ...result } = redactTexts([text], detectorNames);
+  return { text: texts[0], ...result };
+}
+
+// Put the original values back into text produced from a redacted input
+export function restoreText(text: string, tokens: Record<string, string>) {
+  return Object.keys(tokens).reduce(
+    (restored, token) => restored.split(token).join(tokens[token]),
+    text
+  );
+}
+
+function readTokenMaps(): Record<string, any> {
+  if (!fs.existsSync(TOKEN_MAPS_FILE)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(TOKEN_MAPS_FILE, "utf-8"));
+}
+
+export function saveTokenMap(id: string, tokens: Record<string, string>) {
+  const maps = readTokenMaps();
+  maps[id] = { tokens, created_at: new Date().toISOString() };
+  const tmp = `${TOKEN_MAPS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(maps));
+  fs.renameSync(tmp, TOKEN_MAPS_FILE);
+}
+
+export function getTokenMap(id: string): Record<string, string> | null {
+  return readTokenMaps()[id]?.tokens || null;
+}
+
+// Redact request inputs and keep their token map locally for later reversal.
+// With the report of inputs redacted earlier, the texts join its token map.
+export function redactInputs(
+  texts: string[],
+  detectorNames?: string[],
+  previous?: RedactionReport
+): { texts: string[]; report: RedactionReport } {
+  const result = redactTexts(
+    texts,
+    detectorNames,
+    previous && { report: previous, tokens: getTokenMap(previous.id) || {} }
+  );
+  if (result.report.total > 0) {
+    saveTokenMap(result.report.id, result.tokens);
+  }
+  return { texts: result.texts, report: result.report };
+}
@@ -0,0 +1,134 @@
+import axios from "axios";
+
+// Rows that synthetic data is generated from, each with an id so every
+// generated row can be traced back to its source.
+export interface SourceRecord {
+  id: string;
+  text: string;
+  label?: string | null;
+}
+
+export interface HuggingFaceReference {
+  dataset: string;
+  config?: string;
+  split?: string;
+  offset?: number;
+  limit?: number;
+  // Column holding the text to generate from
+  text_field?: string;
+}
+
+export interface SourceDescription {
+  type: "text" | "records" | "huggingface" | "tabular";
+  dataset?: string;
+  config?: string;
+  split?: string;
+  rows: number;
+  variants_per_row: number;
+}
+
+const HF_ROWS_URL = "https://datasets-server.huggingface.co/rows";
+// The datasets server returns at most 100 rows per request
+const HF_PAGE_SIZE = 100;
+export const MAX_SOURCE_RECORDS = 1000;
+// Each generated row is at least one model call, so the product of source
+// rows and variants is capped as well
+export const MAX_GENERATED_ROWS = 1000;
+
+export async function fetchHuggingFaceRows(
+  reference: HuggingFaceReference
+): Promise<SourceRecord[]> {
+  const {
+    dataset,
+    config = "default",
+    split = "train",
+    offset = 0,
+    limit = 5,
+    text_field = "text",
+  } = reference;
+  if (!Number.isInteger(Number(limit)) || Number(limit) < 1) {
+    throw new Error("huggingface.limit must be a positive integer");
+  }
+  const rows_wanted = Math.min(Number(limit), MAX_SOURCE_RECORDS);
+
+  const records: SourceRecord[] = [];
+  while (records.length < rows_wanted) {
+    const length = Math.min(HF_PAGE_SIZE, rows_wanted - records.length);
+    const response = await axios.get(HF_ROWS_URL, {
+      params: {
+        dataset,
+        config,
+        split,
+        offset: offset + records.length,
+        length,
+      },
+      timeout: 15000,
+    });
+
+    const rows = response.data.rows || [];
+    rows.forEach((row: any) => {
+      records.push({
+        id: String(row.row_idx ?? row.row.id ?? offset + records.length),
+        text: row.row[text_field],
+        label: row.row.label || null,
+      });
+    });
+    if (rows.length < length) break;
+  }
+
+  return records;
+}
+
+/**
+ * Accept records as plain strings or `{ id, text }` objects, such as the
+ * `samples` returned by /api/fetch-dataset. Missing ids become the index.
+ */
+export function normalizeSourceRecords(records: any[]): SourceRecord[] {
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new Error("source_records must be a non-empty array");
+  }
+  if (records.length > MAX_SOURCE_RECORDS) {
+    throw new Error(
+      `source_records is limited to ${MAX_SOURCE_RECORDS} rows, got ${records.length}`
+    );
+  }
+
+  return records.map((record, index) => {
+    const text = typeof record === "string" ? record : record?.text;
+    if (typeof text !== "string" || text.trim() === "") {
+      throw new Error(`source_records[${index}] has no text`);
+    }
+    const id = typeof record === "object" ? record.id ?? record.row_idx : null;
+    return {
+      id: id !== undefined && id !== null ? String(id) : String(index),
+      text,
+      ...(typeof record === "object" && record.label !== undefined
+        ? { label: record.label }
+        : {}),
+    };
+  });
+}
+
+// Parse the variants_per_row request field, defaulting to 1
+export function variantsPerRow(value: any) {
+  if (value === undefined || value === null || value === "") return 1;
+  const variants = Number(value);
+  if (!Number.isInteger(variants) || variants < 1) {
+    throw new Error("variants_per_row must be a positive integer");
+  }
+  if (variants > MAX_GENERATED_ROWS) {
+    throw new Error(
+      `variants_per_row is limited to ${MAX_GENERATED_ROWS}, got ${variants}`
+    );
+  }
+  return variants;
+}
+
+export function assertGeneratedRows(rows: number, variants_per_row: number) {
+  const total = rows * variants_per_row;
+  if (total > MAX_GENERATED_ROWS) {
+    throw new Error(
+      `${rows} source rows x ${variants_per_row} variants_per_row is ${total} rows, limited to ${MAX_GENERATED_ROWS}`
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import axios from "axios";
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { IRYS_GATEWAY, getIrys, uploadFromData } from "./upload-irys";
+
+dotenv.config();
+
+// Where datasets, metadata and reports are stored. STORAGE_BACKEND selects
+// Irys (the default) or a local content-addressed store served by the API,
+// which needs no network or funded keys.
+
+export interface StorageTag {
+  name: string;
+  value: string;
+}
+
+export interface StoredObject {
+  data: Buffer;
+  content_type: string;
+}
+
+export interface StorageEntry {
+  id: string;
+  url: string;
+  tags: StorageTag[];
+  created_at: string | null;
+}
+
+export interface StoragePrice {
+  bytes: number;
+  amount: string;
+  currency: string;
+}
+
+export interface StorageBackend {
+  name: string;
+  // Store the data and return the URL it can be fetched from
+  upload(data: Buffer | string, tags?: StorageTag[]): Promise<string>;
+  fetch(url: string): Promise<StoredObject>;
+  // Uploads carrying every given tag, newest first
+  query(tags: StorageTag[], limit?: number): Promise<StorageEntry[]>;
+  price(bytes: number): Promise<StoragePrice>;
+}
+
+export const STORAGE_BACKENDS = ["irys", "local"];
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+const contentTypeTag = (tags: StorageTag[]) =>
+  tags.find((tag) => tag.name.toLowerCase() === "content-type")?.value;
+
+async function fetchUrl(url: string): Promise<StoredObject> {
+  const response = await axios.get(url, {
+    timeout: 10000,
+    responseType: "arraybuffer",
+  });
+  return {
+    data: Buffer.from(response.data),
+    content_type: String(response.headers["content-type"] || ""),
+  };
+}
+
+class IrysBackend implements StorageBackend {
+  name = "irys";
+
+  upload(data: Buffer | string, tags: StorageTag[] = []) {
+    return uploadFromData(data, tags);
+  }
+
+  fetch(url: string) {
+    return fetchUrl(url);
+  }
+
+  async query(tags: StorageTag[], limit = DEFAULT_QUERY_LIMIT) {
+    const endpoint =
+      process.env.IRYS_GRAPHQL_URL || "https://devnet.irys.xyz/graphql";
+    const { data } = await axios.post(
+      endpoint,
+      {
+        query: `query ($tags: [TagFilter!], $first: Int) {
+  transactions(tags: $tags, first: $first, order: DESC) {
+    edges { node { id timestamp tags { name value } } }
+  }
+}`,
+        variables: {
+          tags: tags.map(({ name, value }) => ({ name, values: [value] })),
+          first: limit,
+        },
+      },
+      { timeout: 10000 }
+    );
+    if (data.errors?.length) {
+      throw new Error(`Irys query failed: ${data.errors[0].message}`);
+    }
+    return (data.data?.transactions?.edges || []).map(({ node }: any) => ({
+      id: node.id,
+      url: `${IRYS_GATEWAY}/${node.id}`,
+      tags: node.tags,
+      created_at: node.timestamp
+        ? new Date(node.timestamp).toISOString()
+        : null,
+    }));
+  }
+
+  async price(bytes: number) {
+    const uploader = await getIrys();
+    const price = await uploader.getPrice(bytes);
+    return {
+      bytes,
+      amount: ethers.formatEther(price.toString()),
+      currency: "ETH",
+    };
+  }
+}
+
+interface LocalEntryMeta {
+  id: string;
+  content_type: string;
+  size: number;
+  tags: StorageTag[];
+  created_at: string;
+}
+
+// Objects are stored under the SHA-256 of their content, so uploading the
+// same bytes twice returns the same URL. Tags of the latest upload win.
+class LocalBackend implements StorageBackend {
+  name = "local";
+  private dir: string;
+  private baseUrl: string;
+
+  constructor() {
+    this.dir = process.env.STORAGE_DIR
+      ? path.resolve(process.env.STORAGE_DIR)
+      : path.resolve(__dirname, "../storage");
+    this.baseUrl = (
+      process.env.STORAGE_PUBLIC_URL || "http://localhost:3001"
+    ).replace(/\/$/, "");
+  }
+
+  private file(id: string) {
+    if (!/^[0-9a-f]{64}$/.test(id)) {
+      throw new Error(`Invalid storage id: ${id}`);
+    }
+    return path.join(this.dir, id);
+  }
+
+  url(id: string) {
+    return `${this.baseUrl}/api/storage/${id}`;
+  }
+
+  // The id of a URL this store served, or null for any other URL
+  idOf(url: string) {
+    const match = url.match(/\/api\/storage\/([0-9a-f]{64})$/);
+    return match && fs.existsSync(path.join(this.dir, match[1]))
+      ? match[1]
+      : null;
+  }
+
+  async upload(data: Buffer | string, tags: StorageTag[] = []) {
+    const buffer = typeof data === "string" ? Buffer.from(data) : data;
+    const id = crypto.createHash("sha256").update(buffer).digest("hex");
+    const meta: LocalEntryMeta = {
+      id,
+      content_type: contentTypeTag(tags) || "application/octet-stream",
+      size: buffer.length,
+      tags,
+      created_at: new Date().toISOString(),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const file = this.file(id);
+    fs.writeFileSync(`${file}.tmp`, buffer);
+    fs.renameSync(`${file}.tmp`, file);
+    fs.writeFileSync(`${file}.json`, JSON.stringify(meta));
+    console.log(`Stored ${buffer.length} bytes locally as ${id}`);
+    return this.url(id);
+  }
+
+  read(id: string): StoredObject {
+    const file = this.file(id);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No stored object ${id}`);
+    }
+    const meta: LocalEntryMeta = JSON.parse(
+      fs.readFileSync(`${file}.json`, "utf-8")
+    );
+    return { data: fs.readFileSync(file), content_type: meta.content_type };
+  }
+
+  // URLs of this store are read from disk; anything else is downloaded
+  async fetch(url: string) {
+    const id = this.idOf(url);
+    return id ? this.read(id) : fetchUrl(url);
+  }
+
+  async query(tags: StorageTag[], limit = DEFAULT_QUERY_LIMIT) {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((name) => name.endsWith(".json"))
+      .map(
+        (name): LocalEntryMeta =>
+          JSON.parse(fs.readFileSync(path.join(this.dir, name), "utf-8"))
+      )
+      .filter((meta) =>
+        tags.every((tag) =>
+          meta.tags.some((t) => t.name === tag.name && t.value === tag.value)
+        )
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map((meta) => ({
+        id: meta.id,
+        url: this.url(meta.id),
+        tags: meta.tags,
+        created_at: meta.created_at,
+      }));
+  }
+
+  async price(bytes: number) {
+    return { bytes, amount: "0", currency: "none" };
+  }
+}
+
+let backend: StorageBackend | null = null;
+
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    const name = (process.env.STORAGE_BACKEND || "irys").toLowerCase();
+    if (name === "irys") {
+      backend = new IrysBackend();
+    } else if (name === "local") {
+      backend = new LocalBackend();
+    } else {
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${name}". Available: ${STORAGE_BACKENDS.join(
+          ", "
+        )}`
+      );
+    }
+  }
+  return backend;
+}
+
+/**
+ * Read an object of the local store, for the route that serves it. Null
+ * when the local store is not the configured backend.
+ */
+export function readLocalObject(id: string): StoredObject | null {
+  const storage = getStorage();
+  return storage instanceof LocalBackend ? storage.read(id) : null;
+}
+
+export async function fetchText(url: string) {
+  const { data, content_type } = await getStorage().fetch(url);
+  return { text: data.toString("utf-8"), content_type };
+}
+
+export async function fetchJson(url: string) {
+  return JSON.parse((await fetchText(url)).text);
+}
@@ -0,0 +1,459 @@
+import { JsonSchema } from "./json-schema";
+import { parseCsv } from "./dataset-formats";
+import { sourceHash } from "./publication";
+
+// Tabular mode: rows are described column by column. Numeric, date, boolean
+// and category columns are sampled locally from their specs; the model fills
+// in the free-text columns and keeps the row consistent.
+
+export type ColumnType =
+  | "integer"
+  | "number"
+  | "string"
+  | "category"
+  | "boolean"
+  | "date";
+
+export const COLUMN_TYPES: ColumnType[] = [
+  "integer",
+  "number",
+  "string",
+  "category",
+  "boolean",
+  "date",
+];
+
+export interface ColumnSpec {
+  name: string;
+  type: ColumnType;
+  description?: string;
+  // Numeric bounds, or YYYY-MM-DD for dates
+  min?: number | string;
+  max?: number | string;
+  categories?: string[];
+  // Relative frequency of each category, same order as categories
+  weights?: number[];
+  distribution?: "uniform" | "normal";
+  mean?: number;
+  stddev?: number;
+  // Share of true values for boolean columns
+  probability?: number;
+  maxLength?: number;
+  // Leave the value to the model instead of sampling it locally
+  llm?: boolean;
+}
+
+export const MAX_COLUMNS = 50;
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Columns with more distinct values than this are inferred as free text
+const MAX_INFERRED_CATEGORIES = 20;
+
+function isDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    new RegExp(DATE_PATTERN).test(value) &&
+    !isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Validate column specs from a request and fill in defaults. Throws on the
+ * first invalid column.
+ */
+export function normalizeColumnSpecs(columns: any[]): ColumnSpec[] {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new Error("columns must be a non-empty array");
+  }
+  if (columns.length > MAX_COLUMNS) {
+    throw new Error(`columns is limited to ${MAX_COLUMNS} entries`);
+  }
+
+  const names = new Set<string>();
+  return columns.map((column, index) => {
+    const where = `columns[${index}]`;
+    if (!column || typeof column.name !== "string" || !column.name.trim()) {
+      throw new Error(`${where} has no name`);
+    }
+    const name = column.name.trim();
+    if (names.has(name)) {
+      throw new Error(`Duplicate column "${name}"`);
+    }
+    names.add(name);
+
+    const type: ColumnType =
+      column.type ?? (Array.isArray(column.categories) ? "category" : "string");
+    if (!COLUMN_TYPES.includes(type)) {
+      throw new Error(
+        `${where} has unknown type "${type}". Available: ${COLUMN_TYPES.join(
+          ", "
+        )}`
+      );
+    }
+
+    const spec: ColumnSpec = { ...column, name, type };
+
+    if (type === "integer" || type === "number") {
+      const { min = 0, max = type === "integer" ? 100 : 1 } = column;
+      if (typeof min !== "number" || typeof max !== "number" || min > max) {
+        throw new Error(`${where} needs numeric min <= max`);
+      }
+      spec.min = min;
+      spec.max = max;
+      spec.distribution = column.distribution ?? "uniform";
+      if (!["uniform", "normal"].includes(spec.distribution!)) {
+        throw new Error(`${where} has unknown distribution`);
+      }
+      if (spec.distribution === "normal") {
+        spec.mean = column.mean ?? (min + max) / 2;
+        spec.stddev = column.stddev ?? (max - min) / 6;
+      }
+    }
+
+    if (type === "date") {
+      const {
+        min = "2000-01-01",
+        max = new Date().toISOString().slice(0, 10),
+      } = column;
+      if (!isDate(min) || !isDate(max) || min > max) {
+        throw new Error(`${where} needs YYYY-MM-DD min <= max`);
+      }
+      spec.min = min;
+      spec.max = max;
+    }
+
+    if (type === "category") {
+      const categories = column.categories;
+      if (!Array.isArray(categories) || categories.length === 0) {
+        throw new Error(`${where} needs a non-empty categories array`);
+      }
+      spec.categories = categories.map(String);
+      if (column.weights !== undefined) {
+        const weights = column.weights;
+        if (
+          !Array.isArray(weights) ||
+          weights.length !== categories.length ||
+          weights.some((w: any) => typeof w !== "number" || w < 0) ||
+          weights.every((w: number) => w === 0)
+        ) {
+          throw new Error(
+            `${where} weights must be non-negative numbers, one per category`
+          );
+        }
+      }
+    }
+
+    if (type === "boolean" && column.probability !== undefined) {
+      const p = column.probability;
+      if (typeof p !== "number" || p < 0 || p > 1) {
+        throw new Error(`${where} probability must be between 0 and 1`);
+      }
+    }
+
+    return spec;
+  });
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stddev(values: number[]) {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+// Rows of a sample CSV with a header row, keyed by column name
+export function sampleRecords(sample_csv: string): Record<string, string>[] {
+  const [header, ...records] = parseCsv(sample_csv.trim());
+  if (!header || records.length === 0) {
+    throw new Error("sample_csv needs a header row and at least one row");
+  }
+  return records.map((record) =>
+    Object.fromEntries(
+      header.map((name, i) => [name, (record[i] ?? "").trim()])
+    )
+  );
+}
+
+/**
+ * Derive column specs from a sample CSV with a header row. The sample itself
+ * is not kept; only ranges, category frequencies and text lengths are.
+ */
+export function inferColumnSpecs(sample_csv: string): ColumnSpec[] {
+  const records = sampleRecords(sample_csv);
+
+  return normalizeColumnSpecs(
+    Object.keys(records[0]).map((name) => {
+      const values = records
+        .map((record) => record[name])
+        .filter((value) => value !== "");
+      if (values.length === 0) return { name, type: "string" };
+
+      if (values.every((v) => /^(true|false|yes|no)$/i.test(v))) {
+        const yes = values.filter((v) => /^(true|yes)$/i.test(v)).length;
+        return {
+          name,
+          type: "boolean",
+          probability: round(yes / values.length),
+        };
+      }
+
+      if (values.every((v) => /^-?\d+(\.\d+)?$/.test(v))) {
+        const numbers = values.map(Number);
+        const integer = values.every((v) => /^-?\d+$/.test(v));
+        return {
+          name,
+          type: integer ? "integer" : "number",
+          min: Math.min(...numbers),
+          max: Math.max(...numbers),
+          ...(numbers.length > 2
+            ? {
+                distribution: "normal",
+                mean: round(mean(numbers)),
+                stddev: round(stddev(numbers)),
+              }
+            : {}),
+        };
+      }
+
+      if (values.every((v) => isDate(v))) {
+        const sorted = [...values].sort();
+        return {
+          name,
+          type: "date",
+          min: sorted[0],
+          max: sorted[sorted.length - 1],
+        };
+      }
+
+      const counts = new Map<string, number>();
+      values.forEach((v) => counts.set(v, (counts.get(v) || 0) + 1));
+      if (
+        counts.size <= MAX_INFERRED_CATEGORIES &&
+        counts.size < values.length
+      ) {
+        return {
+          name,
+          type: "category",
+          categories: Array.from(counts.keys()),
+          weights: Array.from(counts.values()),
+        };
+      }
+
+      const lengths = values.map((v) => v.length);
+      return {
+        name,
+        type: "string",
+        description: `Free text, typically ${Math.round(
+          mean(lengths)
+        )} characters`,
+        maxLength: Math.max(...lengths) * 2,
+      };
+    })
+  );
+}
+
+/**
+ * Category values inferred from a sample CSV are source data. Published
+ * specs (and the row schema derived from them) list their hashes instead;
+ * the weights still give the distribution.
+ */
+export function hashCategories(columns: ColumnSpec[]): ColumnSpec[] {
+  return columns.map((column) =>
+    column.categories
+      ? { ...column, categories: column.categories.map(sourceHash) }
+      : column
+  );
+}
+
+// Row schema used for validation; every column is required
+export function columnsToSchema(columns: ColumnSpec[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  columns.forEach((column) => {
+    const description = column.description
+      ? { description: column.description }
+      : {};
+    switch (column.type) {
+      case "integer":
+      case "number":
+        properties[column.name] = {
+          type: column.type,
+          minimum: column.min,
+          maximum: column.max,
+          ...description,
+        };
+        break;
+      case "category":
+        properties[column.name] = {
+          type: "string",
+          enum: column.categories,
+          ...description,
+        };
+        break;
+      case "boolean":
+        properties[column.name] = { type: "boolean", ...description };
+        break;
+      case "date":
+        properties[column.name] = {
+          type: "string",
+          pattern: DATE_PATTERN,
+          ...description,
+        };
+        break;
+      case "string":
+        properties[column.name] = {
+          type: "string",
+          minLength: 1,
+          ...(column.maxLength ? { maxLength: column.maxLength } : {}),
+          ...description,
+        };
+        break;
+    }
+  });
+
+  return {
+    type: "object",
+    properties,
+    required: columns.map((column) => column.name),
+    additionalProperties: false,
+  };
+}
+
+// mulberry32: small seeded PRNG so a seed reproduces the sampled values
+export function createRng(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller transform
+function normal(rng: () => number, mu: number, sigma: number) {
+  const u = 1 - rng();
+  const v = rng();
+  return mu + sigma * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function sampleNumber(column: ColumnSpec, rng: () => number) {
+  const min = column.min as number;
+  const max = column.max as number;
+  const value =
+    column.distribution === "normal"
+      ? normal(rng, column.mean!, column.stddev!)
+      : min + rng() * (max - min);
+  const clamped = Math.min(max, Math.max(min, value));
+  return column.type === "integer" ? Math.round(clamped) : round(clamped, 2);
+}
+
+function sampleCategory(column: ColumnSpec, rng: () => number) {
+  const categories = column.categories!;
+  const weights = column.weights || categories.map(() => 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let pick = rng() * total;
+  for (let i = 0; i < categories.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return categories[i];
+  }
+  return categories[categories.length - 1];
+}
+
+function sampleDate(column: ColumnSpec, rng: () => number) {
+  const min = Date.parse(column.min as string);
+  const days = Math.round((Date.parse(column.max as string) - min) / DAY_MS);
+  return new Date(min + Math.floor(rng() * (days + 1)) * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Sample values for every column that is not left to the model. Free-text
+ * columns are always generated by the model.
+ */
+export function sampleRow(columns: ColumnSpec[], rng: () => number) {
+  const row: Record<string, any> = {};
+  columns.forEach((column) => {
+    if (column.llm) return;
+    switch (column.type) {
+      case "integer":
+      case "number":
+        row[column.name] = sampleNumber(column, rng);
+        break;
+      case "category":
+        row[column.name] = sampleCategory(column, rng);
+        break;
+      case "boolean":
+        row[column.name] = rng() < (column.probability ?? 0.5);
+        break;
+      case "date":
+        row[column.name] = sampleDate(column, rng);
+        break;
+    }
+  });
+  return row;
+}
+
+function columnHint(column: ColumnSpec) {
+  switch (column.type) {
+    case "integer":
+    case "number":
+      return `${column.type} between ${column.min} and ${column.max}`;
+    case "category":
+      return `one of: ${column.categories!.join(", ")}`;
+    case "date":
+      return `date (YYYY-MM-DD) between ${column.min} and ${column.max}`;
+    case "boolean":
+      return "true or false";
+    case "string":
+      return column.maxLength
+        ? `text, at most ${column.maxLength} characters`
+        : "text";
+  }
+}
+
+// Prompt input for one row: fixed values first, then the columns to fill in
+export function describeRow(
+  columns: ColumnSpec[],
+  sampled: Record<string, any>
+) {
+  return columns
+    .map((column) => {
+      const about = column.description ? ` - ${column.description}` : "";
+      return column.name in sampled
+        ? `${column.name} = ${JSON.stringify(sampled[column.name])} (fixed)`
+        : `${column.name}: ${columnHint(column)}${about}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Build the final row in column order. Sampled values win over whatever the
+ * model returned for the same column; keys outside the spec are dropped.
+ */
+export function assembleRow(
+  columns: ColumnSpec[],
+  generated: Record<string, any>,
+  sampled: Record<string, any>
+) {
+  const row: Record<string, any> = {};
+  columns.forEach((column) => {
+    const value =
+      column.name in sampled ? sampled[column.name] : generated?.[column.name];
+    if (value !== undefined) row[column.name] = value;
+  });
+  return row;
+}
+
+// Text used for near-duplicate detection, including non-string values
+export function rowText(row: Record<string, any>) {
+  return Object.values(row)
+    .map((value) => (typeof value === "string" ? value : JSON.stringify(value)))
+    .join(" ");
+}
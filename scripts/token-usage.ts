@@ -0,0 +1,179 @@
+// Token usage and cost accounting for model calls, and the budgets that stop
+// a generation once it has spent enough.
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  // Null when the price of a model that was used is unknown
+  cost_usd: number | null;
+}
+
+export interface UsageBudget {
+  max_total_tokens?: number;
+  max_cost_usd?: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 3000;
+
+// Matched by exact name, then by the longest prefix, so dated snapshots
+// such as gpt-4o-2024-08-06 use the price of gpt-4o
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  local: { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+// LLM_PRICES adds or overrides prices, e.g. for self-hosted models:
+// {"llama-3-70b": {"input": 0.5, "output": 0.8}}
+function prices(): Record<string, ModelPrice> {
+  const overrides = process.env.LLM_PRICES
+    ? JSON.parse(process.env.LLM_PRICES)
+    : {};
+  return { ...DEFAULT_PRICES, ...overrides };
+}
+
+export function modelPrice(model: string): ModelPrice | null {
+  const table = prices();
+  const name = model.toLowerCase();
+  if (table[name]) return table[name];
+  const prefix = Object.keys(table)
+    .filter((key) => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+}
+
+export function usageCost(model: string, usage: TokenUsage): number | null {
+  const price = modelPrice(model);
+  if (!price) return null;
+  return (
+    (usage.input_tokens * price.input + usage.output_tokens * price.output) /
+    1_000_000
+  );
+}
+
+// Rough count for providers that report no usage: ~4 characters per token
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function emptyUsage(): UsageTotals {
+  return {
+    requests: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0,
+  };
+}
+
+const roundCost = (cost: number | null) =>
+  cost === null ? null : Number(cost.toFixed(6));
+
+export function addUsage(
+  totals: UsageTotals,
+  usage: TokenUsage,
+  cost: number | null,
+  requests = 1
+): UsageTotals {
+  return {
+    requests: totals.requests + requests,
+    input_tokens: totals.input_tokens + usage.input_tokens,
+    output_tokens: totals.output_tokens + usage.output_tokens,
+    total_tokens: totals.total_tokens + usage.total_tokens,
+    cost_usd:
+      totals.cost_usd === null || cost === null
+        ? null
+        : roundCost(totals.cost_usd + cost),
+  };
+}
+
+export function sumUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return addUsage(a, b, b.cost_usd, b.requests);
+}
+
+function positive(value: any, field: string) {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = Number(value);
+  if (!(number > 0)) {
+    throw new Error(`${field} must be a positive number`);
+  }
+  return number;
+}
+
+// Parse max_tokens, which limits the output of each model call
+export function resolveMaxOutputTokens(value: any) {
+  const max_tokens = positive(value, "max_tokens");
+  if (max_tokens !== undefined && !Number.isInteger(max_tokens)) {
+    throw new Error("max_tokens must be an integer");
+  }
+  return max_tokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+}
+
+/**
+ * Parse the budget fields of a request. A cost budget needs a known price
+ * for every model the request calls (generator and judge): one unpriced
+ * call makes the total cost unknown, so the budget could never be enforced.
+ */
+export function resolveBudget(
+  body: { max_total_tokens?: any; max_cost_usd?: any },
+  models: string[]
+): UsageBudget {
+  const budget: UsageBudget = {
+    max_total_tokens: positive(body.max_total_tokens, "max_total_tokens"),
+    max_cost_usd: positive(body.max_cost_usd, "max_cost_usd"),
+  };
+  const unpriced = models.find((model) => !modelPrice(model));
+  if (budget.max_cost_usd !== undefined && unpriced !== undefined) {
+    throw new Error(
+      `No price known for model "${unpriced}"; set LLM_PRICES to use max_cost_usd`
+    );
+  }
+  return budget;
+}
+
+// What is left of a budget after an earlier run spent part of it
+export function remainingBudget(
+  budget: UsageBudget,
+  spent: UsageTotals
+): UsageBudget {
+  return {
+    max_total_tokens:
+      budget.max_total_tokens !== undefined
+        ? budget.max_total_tokens - spent.total_tokens
+        : undefined,
+    max_cost_usd:
+      budget.max_cost_usd !== undefined
+        ? budget.max_cost_usd - (spent.cost_usd ?? 0)
+        : undefined,
+  };
+}
+
+export function budgetExhausted(budget: UsageBudget, totals: UsageTotals) {
+  return (
+    (budget.max_total_tokens !== undefined &&
+      totals.total_tokens >= budget.max_total_tokens) ||
+    (budget.max_cost_usd !== undefined &&
+      totals.cost_usd !== null &&
+      totals.cost_usd >= budget.max_cost_usd)
+  );
+}
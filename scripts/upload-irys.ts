@@ -8,7 +8,11 @@ import "dotenv/config";
 
 dotenv.config();
 
-async function getIrys() {
+export const IRYS_GATEWAY = (
+  process.env.IRYS_GATEWAY || "https://gateway.irys.xyz"
+).replace(/\/$/, "");
+
+export async function getIrys() {
   const rpcUrl = process.env.INFURA_RPC || "";
   const uploader = await Uploader(Ethereum)
     .withWallet(process.env.PRIVATE_KEY_IRYS || "")
@@ -52,9 +56,9 @@ export async function uploadFromData(
 
     console.log(`Data uploaded successfully!`);
     console.log(`Transaction ID: ${receipt.id}`);
-    console.log(`URL: https://gateway.irys.xyz/${receipt.id}`);
+    console.log(`URL: ${IRYS_GATEWAY}/${receipt.id}`);
 
-    return `https://gateway.irys.xyz/${receipt.id}`;
+    return `${IRYS_GATEWAY}/${receipt.id}`;
   } catch (error) {
     console.error("Error uploading data:", error);
     throw error;
@@ -102,11 +106,11 @@ async function uploadMetadata(
 
     console.log(`Metadata uploaded successfully!`);
     console.log(`Transaction ID: ${receipt.id}`);
-    console.log(`URL: https://gateway.irys.xyz/${receipt.id}`);
+    console.log(`URL: ${IRYS_GATEWAY}/${receipt.id}`);
 
     return {
       id: receipt.id,
-      url: `https://gateway.irys.xyz/${receipt.id}`,
+      url: `${IRYS_GATEWAY}/${receipt.id}`,
     };
   } catch (error) {
     console.error("Error uploading metadata:", error);
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  UploadProgress,
+  fetchContent,
+  uploadContent,
+} from "../scripts/chunked-upload";
+
+// The storage backend is chosen on first use, so the local store is
+// selected before any test runs
+const STORAGE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "sagasynth-"));
+process.env.STORAGE_BACKEND = "local";
+process.env.STORAGE_DIR = STORAGE_DIR;
+
+async function rejection(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return null;
+}
+
+const storedFile = (url: string) =>
+  path.join(STORAGE_DIR, url.split("/").pop()!);
+
+describe("Chunked uploads", function () {
+  const UPLOADS_FILE = path.resolve(__dirname, "../uploads.json");
+  const content = JSON.stringify(
+    Array.from({ length: 20 }, (_, i) => ({ note: `Row ${i}: stable.` }))
+  );
+  const tags = [{ name: "Content-Type", value: "application/json" }];
+  let savedUploads: string | null;
+  let savedChunkSize: string | undefined;
+
+  before(function () {
+    savedUploads = fs.existsSync(UPLOADS_FILE)
+      ? fs.readFileSync(UPLOADS_FILE, "utf-8")
+      : null;
+    savedChunkSize = process.env.UPLOAD_CHUNK_SIZE_MB;
+    // About 100 bytes per chunk
+    process.env.UPLOAD_CHUNK_SIZE_MB = String(100 / (1024 * 1024));
+  });
+
+  after(function () {
+    if (savedUploads === null) {
+      fs.rmSync(UPLOADS_FILE, { force: true });
+    } else {
+      fs.writeFileSync(UPLOADS_FILE, savedUploads);
+    }
+    if (savedChunkSize === undefined) {
+      delete process.env.UPLOAD_CHUNK_SIZE_MB;
+    } else {
+      process.env.UPLOAD_CHUNK_SIZE_MB = savedChunkSize;
+    }
+    fs.rmSync(STORAGE_DIR, { recursive: true, force: true });
+  });
+
+  it("resumes an interrupted upload from the last stored chunk", async function () {
+    const interrupted = uploadContent(content, tags, (progress) => {
+      if (progress.chunks_done === 2) {
+        throw new Error("connection lost");
+      }
+    });
+    expect(await rejection(interrupted)).to.equal("connection lost");
+
+    const progress: UploadProgress[] = [];
+    const url = await uploadContent(content, tags, (p) => progress.push(p));
+
+    expect(progress.length).to.be.greaterThan(2);
+    expect(progress.map((p) => p.resumed).slice(0, 3)).to.deep.equal([
+      true,
+      true,
+      false,
+    ]);
+    expect(progress[progress.length - 1]).to.include({
+      bytes_done: content.length,
+      bytes_total: content.length,
+    });
+
+    const fetched = await fetchContent(url);
+    expect(fetched.chunked).to.equal(true);
+    expect(fetched.text).to.equal(content);
+    expect(fetched.content_type).to.equal("application/json");
+  });
+
+  it("returns the finished upload instead of uploading again", async function () {
+    const first = await uploadContent(content, tags);
+    const progress: UploadProgress[] = [];
+
+    expect(
+      await uploadContent(content, tags, (p) => progress.push(p))
+    ).to.equal(first);
+    expect(progress).to.deep.equal([]);
+  });
+
+  it("refuses a chunk that does not match its hash", async function () {
+    const url = await uploadContent(content, tags);
+    const manifest = JSON.parse(fs.readFileSync(storedFile(url), "utf-8"));
+    fs.writeFileSync(storedFile(manifest.chunks[1].url), "tampered");
+
+    expect(await rejection(fetchContent(url))).to.equal(
+      "Chunk 1 does not match its hash"
+    );
+  });
+});
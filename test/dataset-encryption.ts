@@ -0,0 +1,249 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { ethers } from "ethers";
+import app from "../api";
+import {
+  ENCRYPTED_MAGIC,
+  assertKeyMintable,
+  assertKeyReleasable,
+  bindDatasetKey,
+  decryptDataset,
+  encryptDataset,
+  encryptWithDatasetKey,
+  findDatasetKey,
+  isEncrypted,
+  keyRequestMessage,
+  recordContentUrl,
+  unwrapDatasetKey,
+  verifyKeyRequest,
+} from "../scripts/dataset-encryption";
+import { hashDatasetContent } from "../scripts/dataset-hash";
+import { getStorage } from "../scripts/storage";
+
+// Encrypted files are published to the local store; the first test file to
+// set a directory keeps it, since the backend is chosen on first use
+const OWN_STORAGE_DIR = !process.env.STORAGE_DIR;
+process.env.STORAGE_BACKEND = "local";
+process.env.STORAGE_DIR =
+  process.env.STORAGE_DIR ||
+  fs.mkdtempSync(path.join(os.tmpdir(), "sagasynth-"));
+
+describe("Dataset encryption", function () {
+  const KEYS_FILE = path.resolve(__dirname, "../dataset-keys.json");
+  const creator = ethers.Wallet.createRandom().address;
+  let savedKeys: string | null;
+  let savedMasterKey: string | undefined;
+  let uploads = 0;
+
+  // Encrypt content and record it as uploaded, as publishing does
+  function publish(content: string) {
+    const { data, encryption } = encryptDataset(content, "application/json");
+    const { hash } = hashDatasetContent(data, "", "sha256-bytes-v1");
+    const content_url = `https://gateway.irys.xyz/test-${++uploads}`;
+    recordContentUrl(encryption.key_id, content_url, hash);
+    return { data, encryption, content_url, content_hash: hash };
+  }
+
+  before(function () {
+    savedKeys = fs.existsSync(KEYS_FILE)
+      ? fs.readFileSync(KEYS_FILE, "utf-8")
+      : null;
+    savedMasterKey = process.env.DATASET_MASTER_KEY;
+    process.env.DATASET_MASTER_KEY = "ab".repeat(32);
+  });
+
+  after(function () {
+    if (savedKeys === null) {
+      fs.rmSync(KEYS_FILE, { force: true });
+    } else {
+      fs.writeFileSync(KEYS_FILE, savedKeys);
+    }
+    if (savedMasterKey === undefined) {
+      delete process.env.DATASET_MASTER_KEY;
+    } else {
+      process.env.DATASET_MASTER_KEY = savedMasterKey;
+    }
+  });
+
+  it("decrypts content and companion files with the released key", function () {
+    const content = JSON.stringify([{ note: "Stable after treatment." }]);
+    const { data, encryption, content_url } = publish(content);
+    const key = unwrapDatasetKey(findDatasetKey(content_url)!);
+    const manifest = encryptWithDatasetKey(
+      encryption.key_id,
+      JSON.stringify({ attempts: [{ prompt: "Rewrite the note." }] }),
+      "application/json"
+    );
+
+    expect(isEncrypted(data)).to.equal(true);
+    expect(data.toString()).not.to.include("Stable");
+    expect(decryptDataset(data, key.toString("base64")).toString()).to.equal(
+      content
+    );
+    expect(manifest.encryption.key_id).to.equal(encryption.key_id);
+    expect(
+      JSON.parse(decryptDataset(manifest.data, key).toString()).attempts[0]
+    ).to.deep.equal({ prompt: "Rewrite the note." });
+  });
+
+  it("derives the IV from the content without reusing the data key", function () {
+    const { encryption, content_url } = publish("[]");
+    const key = unwrapDatasetKey(findDatasetKey(content_url)!);
+    const report = JSON.stringify({ fidelity_score: 0.9 });
+    const first = encryptWithDatasetKey(
+      encryption.key_id,
+      report,
+      "application/json"
+    ).data;
+    const second = encryptWithDatasetKey(
+      encryption.key_id,
+      report,
+      "application/json"
+    ).data;
+    const iv = first.subarray(
+      ENCRYPTED_MAGIC.length,
+      ENCRYPTED_MAGIC.length + 12
+    );
+
+    expect(second.equals(first)).to.equal(true);
+    expect(
+      iv.equals(
+        crypto.createHmac("sha256", key).update(report).digest().subarray(0, 12)
+      )
+    ).to.equal(false);
+  });
+
+  it("binds a key once, to a token committing to the ciphertext", function () {
+    const { encryption, content_url, content_hash } = publish(
+      JSON.stringify([{ note: "Mild cough, no fever." }])
+    );
+    const key = findDatasetKey(content_url)!;
+
+    expect(() => assertKeyMintable(key, `0x${"0".repeat(64)}`)).to.throw(
+      "contentHash does not match the encrypted dataset"
+    );
+    bindDatasetKey(encryption.key_id, "7", content_hash.toUpperCase(), creator);
+    expect(findDatasetKey(content_url)).to.include({
+      token_id: "7",
+      creator,
+    });
+    expect(() =>
+      bindDatasetKey(encryption.key_id, "8", content_hash, creator)
+    ).to.throw("Dataset key is bound to token 7");
+  });
+
+  it("releases a key only for the token and creator it was bound to", function () {
+    const { encryption, content_url, content_hash } = publish(
+      JSON.stringify([{ note: "Follow-up in two weeks." }])
+    );
+    const minted = { content_hash, content_link: content_url, owner: creator };
+
+    expect(() =>
+      assertKeyReleasable(findDatasetKey(content_url)!, "9", minted)
+    ).to.throw("Dataset key is not bound to a token yet");
+
+    bindDatasetKey(encryption.key_id, "9", content_hash, creator);
+    const key = findDatasetKey(content_url)!;
+
+    expect(() => assertKeyReleasable(key, "9", minted)).not.to.throw();
+    expect(() => assertKeyReleasable(key, "10", minted)).to.throw(
+      "Dataset key is bound to token 9"
+    );
+    expect(() =>
+      assertKeyReleasable(key, "9", {
+        ...minted,
+        content_hash: `0x${"1".repeat(64)}`,
+      })
+    ).to.throw("Token content_hash does not match the encrypted dataset");
+    expect(() =>
+      assertKeyReleasable(key, "9", {
+        ...minted,
+        owner: ethers.Wallet.createRandom().address,
+      })
+    ).to.throw("Token was not minted by the wallet the key is bound to");
+  });
+
+  it("recovers the signer of a fresh key request", async function () {
+    const wallet = ethers.Wallet.createRandom();
+    const now = Date.now();
+    const signature = await wallet.signMessage(keyRequestMessage("9", now));
+
+    expect(verifyKeyRequest("9", now, signature, now)).to.equal(wallet.address);
+    expect(verifyKeyRequest("10", now, signature, now)).not.to.equal(
+      wallet.address
+    );
+    expect(() =>
+      verifyKeyRequest("9", now, signature, now + 10 * 60 * 1000)
+    ).to.throw("Key request has expired");
+  });
+});
+
+describe("Private dataset routes", function () {
+  let server: Server;
+  let baseUrl: string;
+  let content_url: string;
+  let metadata_url: string;
+
+  // Bytes that read as encrypted content without needing a key
+  const sealed = () =>
+    Buffer.concat([Buffer.from(ENCRYPTED_MAGIC), crypto.randomBytes(48)]);
+
+  before(function (done) {
+    (async () => {
+      const storage = getStorage();
+      const tags = [
+        { name: "Content-Type", value: "application/octet-stream" },
+      ];
+      content_url = await storage.upload(sealed(), tags);
+      metadata_url = await storage.upload(
+        JSON.stringify({
+          content_url,
+          fidelity_url: await storage.upload(sealed(), tags),
+          manifest_url: await storage.upload(sealed(), tags),
+        }),
+        [{ name: "Content-Type", value: "application/json" }]
+      );
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    })().catch(done);
+  });
+
+  after(function (done) {
+    if (OWN_STORAGE_DIR) {
+      fs.rmSync(process.env.STORAGE_DIR!, { recursive: true, force: true });
+    }
+    server.close(done);
+  });
+
+  it("answers 403 instead of reading encrypted content", async function () {
+    const url = encodeURIComponent(content_url);
+    const responses = await Promise.all([
+      fetch(`${baseUrl}/api/dataset/preview?url=${url}`),
+      fetch(`${baseUrl}/api/dataset/export?url=${url}&format=csv`),
+      fetch(
+        `${baseUrl}/api/dataset/fidelity?metadata_url=${encodeURIComponent(
+          metadata_url
+        )}`
+      ),
+      fetch(`${baseUrl}/api/generate/replay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ metadata_url }),
+      }),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).to.equal(403);
+      expect(((await response.json()) as any).error).to.equal(
+        "Dataset is private"
+      );
+    }
+  });
+});
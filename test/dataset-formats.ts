@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import {
+  CONTENT_TYPES,
+  DatasetFormat,
+  parseDataset,
+  resolveFormat,
+  serializeDataset,
+} from "../scripts/dataset-formats";
+
+describe("Dataset formats", function () {
+  const rows = [
+    {
+      synthetic_output: { "dose.mg": 5, notes: "Take with food, twice daily" },
+      violations: [{ path: "$.dose", keyword: "minimum" }],
+      tags: [],
+    },
+  ];
+
+  function roundTrip(format: DatasetFormat) {
+    return parseDataset(serializeDataset(rows, format), CONTENT_TYPES[format]);
+  }
+
+  it("reads JSON formats back into the rows they were written from", function () {
+    ["json", "jsonl", "flat-json"].forEach((format) =>
+      expect(roundTrip(format as DatasetFormat)).to.deep.equal(rows)
+    );
+  });
+
+  it("nests CSV columns again, keeping values as strings", function () {
+    expect(roundTrip("csv")).to.deep.equal([
+      {
+        synthetic_output: {
+          "dose.mg": "5",
+          notes: "Take with food, twice daily",
+        },
+        violations: [{ path: "$.dose", keyword: "minimum" }],
+        tags: [],
+      },
+    ]);
+  });
+
+  it("leaves dotted keys alone in content it did not flatten", function () {
+    const content = "a.b,c\r\n1,2\r\n";
+
+    expect(parseDataset(content, "text/csv")).to.deep.equal([
+      { "a.b": "1", c: "2" },
+    ]);
+    expect(
+      parseDataset(JSON.stringify([{ "a.b": 1 }]), "application/json")
+    ).to.deep.equal([{ "a.b": 1 }]);
+  });
+
+  it("prompts chat examples without a source from the row schema", function () {
+    const [line] = serializeDataset(
+      [{ synthetic_output: { transcription: "A 61 year old with dyspnea." } }],
+      "chat-jsonl",
+      {
+        description: "Paraphrased medical transcriptions",
+        schema: {
+          type: "object",
+          properties: { transcription: { type: "string" } },
+        },
+      }
+    ).split("\n");
+
+    expect(JSON.parse(line).messages).to.deep.equal([
+      {
+        role: "user",
+        content:
+          "Generate a synthetic record: Paraphrased medical transcriptions. Fields: transcription.",
+      },
+      { role: "assistant", content: "A 61 year old with dyspnea." },
+    ]);
+  });
+
+  it("accepts the format names clients already send", function () {
+    expect(resolveFormat("Structured JSON")).to.equal("json");
+    expect(resolveFormat("openai_chat")).to.equal("chat-jsonl");
+    expect(() => resolveFormat("parquet")).to.throw(
+      'Unsupported format "parquet"'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import { CONTENT_TYPES, serializeDataset } from "../scripts/dataset-formats";
+import {
+  DEFAULT_DATASET_HASH_ALGORITHM,
+  canonicalJson,
+  hashDatasetContent,
+  hashDatasetRows,
+  resolveDatasetHashAlgorithm,
+  sameHash,
+} from "../scripts/dataset-hash";
+
+describe("Dataset content hashes", function () {
+  const rows = [
+    { synthetic_output: { note: "Mild cough.", severity: 1 }, tags: ["a"] },
+    { synthetic_output: { note: "Chest pain.", severity: 3 }, tags: [] },
+  ];
+
+  it("writes canonical JSON with sorted keys", function () {
+    expect(canonicalJson({ b: [2, { d: 1, c: null }], a: "x" })).to.equal(
+      '{"a":"x","b":[2,{"c":null,"d":1}]}'
+    );
+  });
+
+  it("hashes the rows regardless of whitespace, key order or format", function () {
+    const expected = hashDatasetRows(rows);
+    const reordered = JSON.stringify(
+      rows.map(({ synthetic_output, tags }) => ({
+        tags,
+        synthetic_output: {
+          severity: synthetic_output.severity,
+          note: synthetic_output.note,
+        },
+      })),
+      null,
+      2
+    );
+
+    expect(expected.algorithm).to.equal("sha256-canonical-json-v1");
+    expect(expected.hash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(hashDatasetContent(reordered, "application/json")).to.deep.equal(
+      expected
+    );
+    expect(
+      hashDatasetContent(
+        serializeDataset(rows, "jsonl"),
+        CONTENT_TYPES["jsonl"]
+      )
+    ).to.deep.equal(expected);
+  });
+
+  it("hashes the stored bytes with sha256-bytes-v1", function () {
+    const compact = JSON.stringify(rows);
+    const spaced = JSON.stringify(rows, null, 2);
+    const bytes = hashDatasetContent(compact, "", "sha256-bytes-v1");
+
+    expect(bytes.algorithm).to.equal("sha256-bytes-v1");
+    expect(
+      hashDatasetContent(Buffer.from(compact), "", "sha256-bytes-v1")
+    ).to.deep.equal(bytes);
+    expect(hashDatasetContent(spaced, "", "sha256-bytes-v1").hash).not.to.equal(
+      bytes.hash
+    );
+  });
+
+  it("rejects an algorithm it does not implement", function () {
+    expect(resolveDatasetHashAlgorithm()).to.equal(
+      DEFAULT_DATASET_HASH_ALGORITHM
+    );
+    expect(resolveDatasetHashAlgorithm("sha256-bytes-v1")).to.equal(
+      "sha256-bytes-v1"
+    );
+    expect(() => resolveDatasetHashAlgorithm("keccak256")).to.throw(
+      'Unknown content hash algorithm "keccak256"'
+    );
+  });
+
+  it("compares hashes without regard to hex case", function () {
+    const { hash } = hashDatasetRows(rows);
+
+    expect(sameHash(hash, hash.toUpperCase().replace("0X", "0x"))).to.equal(
+      true
+    );
+    expect(sameHash(hash, hashDatasetRows([]).hash)).to.equal(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import {
+  DiversityIndex,
+  buildDiversityReport,
+  minhash,
+  similarity,
+  variationHint,
+} from "../scripts/diversity";
+
+describe("Diversity", function () {
+  const note =
+    "A 45 year old reports a persistent dry cough for two weeks with mild fever and fatigue.";
+  const reworded =
+    "A 45 year old reports a persistent dry cough for two weeks with mild fever and tiredness.";
+  const different =
+    "Customer asks for a refund after the blender arrived with a cracked jar.";
+
+  it("estimates similarity from word shingles", function () {
+    expect(similarity(minhash(note), minhash(note))).to.equal(1);
+    expect(similarity(minhash(note), minhash(note.toUpperCase()))).to.equal(1);
+    expect(similarity(minhash(note), minhash(reworded))).to.be.above(0.6);
+    expect(similarity(minhash(note), minhash(different))).to.be.below(0.1);
+  });
+
+  it("finds near-duplicates of accepted rows at the threshold", function () {
+    const index = new DiversityIndex({ threshold: 0.6 });
+    index.add(minhash(different));
+    index.add(minhash(note));
+
+    expect(index.findDuplicate(minhash(reworded))).to.include({ index: 1 });
+    expect(
+      index.findDuplicate(minhash("Invoice 2231 was paid twice by mistake."))
+    ).to.equal(null);
+    expect(
+      new DiversityIndex({ threshold: 1 }).findDuplicate(minhash(note))
+    ).to.equal(null);
+  });
+
+  it("reports diversity and the share of dropped duplicates", function () {
+    const report = buildDiversityReport(
+      [note, different],
+      { threshold: 0.8 },
+      2
+    );
+
+    expect(report).to.include({
+      threshold: 0.8,
+      duplicates_dropped: 2,
+      duplicate_rate: 0.5,
+    });
+    expect(report.diversity_score).to.equal(
+      Number((1 - report.mean_similarity).toFixed(4))
+    );
+    expect(report.diversity_score).to.be.above(0.9);
+    expect(
+      buildDiversityReport([note, note], { threshold: 0.8 }).max_similarity
+    ).to.equal(1);
+  });
+
+  it("cycles through variation hints for repeated sources", function () {
+    expect(variationHint(1)).to.match(/^Variation 1: /);
+    expect(variationHint(9).slice(13)).to.equal(variationHint(1).slice(13));
+    expect(variationHint(2)).not.to.equal(variationHint(1));
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import {
+  expectedTableProfile,
+  jsDivergence,
+  ksStatistic,
+  lengthStats,
+  profileTable,
+  tabularFidelity,
+  textFidelity,
+} from "../scripts/fidelity";
+import { sourceHash } from "../scripts/publication";
+import { ColumnSpec } from "../scripts/tabular";
+
+describe("Fidelity", function () {
+  const columns: ColumnSpec[] = [
+    { name: "age", type: "integer", min: 0, max: 100 },
+    { name: "dose", type: "number", min: 0, max: 10 },
+    { name: "ward", type: "category", categories: ["A", "B"] },
+    { name: "admitted", type: "boolean", probability: 0.5 },
+  ];
+  const sample = [
+    { age: "20", dose: "2", ward: "A", admitted: "true" },
+    { age: "40", dose: "4", ward: "A", admitted: "false" },
+    { age: "60", dose: "6", ward: "B", admitted: "true" },
+    { age: "80", dose: "8", ward: "B", admitted: "false" },
+  ];
+
+  it("compares distributions on a 0 to 1 scale", function () {
+    expect(ksStatistic([1, 2, 3], [1, 2, 3])).to.equal(0);
+    expect(ksStatistic([1, 2], [5, 6])).to.equal(1);
+    expect(ksStatistic([], [1])).to.equal(1);
+    expect(jsDivergence({ a: 0.5, b: 0.5 }, { a: 0.5, b: 0.5 })).to.equal(0);
+    expect(jsDivergence({ a: 1 }, { b: 1 })).to.equal(1);
+    expect(lengthStats([4, 1, 3, 2])).to.deep.equal({
+      count: 4,
+      mean: 2.5,
+      stddev: 1.118,
+      min: 1,
+      median: 2.5,
+      max: 4,
+    });
+  });
+
+  it("scores text rows by length and label distribution", function () {
+    const source_texts = [
+      "Patient reports a mild cough.",
+      "Patient reports chest pain after exercise.",
+    ];
+    const same = textFidelity({
+      source_texts,
+      synthetic_texts: source_texts,
+      source_labels: ["Pulmonology", "Cardiology"],
+      synthetic_labels: ["Cardiology", "Pulmonology"],
+    });
+    const shifted = textFidelity({
+      source_texts,
+      synthetic_texts: ["Cough.", "Pain."],
+      source_labels: ["Pulmonology", "Cardiology"],
+      synthetic_labels: ["Dermatology", "Dermatology"],
+    });
+
+    expect(same.fidelity_score).to.equal(1);
+    expect(same.vocabulary.jaccard).to.equal(1);
+    expect(shifted.labels!.js_divergence).to.equal(1);
+    expect(shifted.fidelity_score).to.equal(0);
+    expect(
+      textFidelity({ source_texts, synthetic_texts: source_texts }).labels
+    ).to.equal(null);
+  });
+
+  it("profiles the marginals and correlations of a table", function () {
+    const profile = profileTable(columns, sample);
+
+    expect(profile.rows).to.equal(4);
+    expect(profile.columns.age).to.include({ count: 4, mean: 50, min: 20 });
+    expect(profile.columns.age.histogram!["20-30"]).to.equal(0.25);
+    expect(profile.columns.ward.histogram).to.deep.equal({ A: 0.5, B: 0.5 });
+    expect(profile.columns.admitted.histogram).to.deep.equal({
+      true: 0.5,
+      false: 0.5,
+    });
+    expect(profile.correlations["age~dose"]).to.equal(1);
+  });
+
+  it("matches a sample against itself and flags drift", function () {
+    const source = profileTable(columns, sample);
+    const same = tabularFidelity(columns, source, sample, "sample");
+    const drifted = tabularFidelity(
+      columns,
+      source,
+      sample.map((row) => ({ ...row, ward: "C" })),
+      "sample",
+      true
+    );
+    const ward = drifted.marginals.find((m) => m.column === "ward")!;
+
+    expect(same.fidelity_score).to.equal(1);
+    expect(same.mean_correlation_difference).to.equal(0);
+    expect(ward.js_divergence).to.equal(1);
+    expect(Object.keys(ward.source!.histogram!)).to.deep.equal([
+      sourceHash("A"),
+      sourceHash("B"),
+    ]);
+    expect(drifted.fidelity_score).to.be.below(same.fidelity_score!);
+  });
+
+  it("expects the shape the column specs describe", function () {
+    const expected = expectedTableProfile([
+      ...columns,
+      {
+        name: "ward",
+        type: "category",
+        categories: ["A", "B"],
+        weights: [3, 1],
+      },
+      { name: "note", type: "string" },
+    ]);
+    const bins = Object.values(expected.columns.age.histogram!);
+
+    expect(bins).to.have.length(10);
+    bins.forEach((share) => expect(share).to.equal(0.1));
+    expect(expected.columns.ward.histogram).to.deep.equal({
+      A: 0.75,
+      B: 0.25,
+    });
+    expect(expected.columns.note).to.deep.equal({ type: "string", count: 0 });
+    expect(expected.correlations).to.deep.equal({});
+  });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import {
+  AttemptRecord,
+  buildManifest,
+  compareManifests,
+  contentHash,
+} from "../scripts/generation-manifest";
+import { PublicationProfile, sourceHash } from "../scripts/publication";
+
+describe("Generation manifests", function () {
+  const source = "Patient [NAME_1] reports chest pain after climbing stairs.";
+  const template = {
+    id: "medical",
+    version: 1,
+    instructions: "Rewrite the transcription.",
+  };
+  const schema = {
+    type: "object",
+    properties: { synthetic_transcription: { type: "string" } },
+  };
+
+  function attempt(
+    index: number,
+    output_hash: string,
+    status: AttemptRecord["status"] = "accepted"
+  ): AttemptRecord {
+    return {
+      attempt: index,
+      input: index,
+      prompt: `Rewrite: "${source}"`,
+      prompt_hash: contentHash(`prompt ${index}`),
+      model: "local",
+      latency_ms: 1,
+      status,
+      ...(status === "accepted" ? { output_hash } : { reason: "validation" }),
+    };
+  }
+
+  function manifest(
+    attempts: AttemptRecord[],
+    profile: PublicationProfile = "synthetic-only"
+  ) {
+    return buildManifest({
+      body: {
+        ai_model: "local",
+        domain: "medical",
+        seed: 7,
+        input_text: source,
+        source: { type: "text" },
+      },
+      provider: "local",
+      model: "local",
+      temperature: 0,
+      max_output_tokens: 500,
+      template,
+      schema,
+      sources: [source],
+      produced: attempts.filter((a) => a.status === "accepted").length,
+      attempts,
+      profile,
+    });
+  }
+
+  it("records replayable settings without the source text", function () {
+    const built = manifest([attempt(0, "sha256:a")]);
+
+    expect(built.request).to.deep.equal({
+      ai_model: "local",
+      domain: "medical",
+      seed: 7,
+    });
+    expect(built.template.version).to.equal(1);
+    expect(built.response_schema_hash).to.equal(contentHash(schema));
+    expect(built.source.hashes).to.equal(null);
+    expect(built.attempts[0]).not.to.have.property("prompt");
+    expect(JSON.stringify(built)).not.to.include(source);
+  });
+
+  it("hashes the sources unless the profile is synthetic-only", function () {
+    const built = manifest([attempt(0, "sha256:a")], "with-hashed-source");
+
+    expect(built.source.hashes).to.deep.equal([sourceHash(source)]);
+    expect(built.attempts[0]).not.to.have.property("prompt");
+  });
+
+  it("compares a replay with the run it repeats", function () {
+    const original = manifest([
+      attempt(0, "sha256:a"),
+      attempt(1, "", "rejected"),
+      attempt(2, "sha256:b"),
+    ]);
+    const replay = manifest([attempt(0, "sha256:a"), attempt(3, "sha256:c")]);
+
+    expect(compareManifests(original, replay)).to.deep.include({
+      template_match: true,
+      response_schema_match: true,
+      rows: { original: 2, replay: 2 },
+      validation_pass_rate: { original: 0.6667, replay: 1 },
+      prompts_matched: 0.5,
+      outputs_reproduced: 0.5,
+    });
+  });
+
+  it("hashes content independently of key order", function () {
+    expect(contentHash({ a: 1, b: [1, { c: 2, d: 3 }] })).to.equal(
+      contentHash({ b: [1, { d: 3, c: 2 }], a: 1 })
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import app from "../api";
+import { registerProvider } from "../scripts/llm-providers";
+
+// Published datasets go to the local store; the first test file to set a
+// directory keeps it, since the backend is chosen on first use
+const OWN_STORAGE_DIR = !process.env.STORAGE_DIR;
+process.env.STORAGE_BACKEND = "local";
+process.env.STORAGE_DIR =
+  process.env.STORAGE_DIR ||
+  fs.mkdtempSync(path.join(os.tmpdir(), "sagasynth-"));
+
+// Files at the repository root that publishing writes to
+const ROOT_FILES = ["history.json", "uploads.json", "redaction-maps.json"].map(
+  (file) => path.resolve(__dirname, "..", file)
+);
+
+describe("Streaming generation", function () {
+  let server: Server;
+  let baseUrl: string;
+  let saved: (string | null)[];
+
+  before(function (done) {
+    let call = 0;
+    registerProvider({
+      name: "stream-stub",
+      async generate(model: string) {
+        const text =
+          model === "broken"
+            ? "not json"
+            : JSON.stringify({
+                synthetic_transcription: `Visit ${++call}: a ${
+                  30 + call
+                } year old reports a sprained ankle after running.`,
+                medical_specialty: "Orthopedics",
+                explanation: `Sports injury review number ${call}.`,
+              });
+        return { text, provider: "stream-stub", model };
+      },
+    });
+    saved = ROOT_FILES.map((file) =>
+      fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null
+    );
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  after(function (done) {
+    ROOT_FILES.forEach((file, i) =>
+      saved[i] === null
+        ? fs.rmSync(file, { force: true })
+        : fs.writeFileSync(file, saved[i]!)
+    );
+    if (OWN_STORAGE_DIR) {
+      fs.rmSync(process.env.STORAGE_DIR!, { recursive: true, force: true });
+    }
+    server.close(done);
+  });
+
+  // The events of a finished stream, in order
+  async function stream(query: Record<string, string | number>) {
+    const params = new URLSearchParams(
+      Object.entries({
+        input_text: "Patient twisted an ankle while running on Sunday.",
+        sample_size: 2,
+        domain: "medical",
+        dataset_name: "Ankle injuries",
+        description: "Sports injury notes",
+        visibility: "public",
+        price_usdc: 0,
+        max_tokens: 500,
+        output_format: "json",
+        source_dataset: "test",
+        ai_model: "stream-stub:fixed",
+        failure_budget: 2,
+        ...query,
+      }).map(([key, value]) => [key, String(value)])
+    );
+    const response = await fetch(`${baseUrl}/api/generate/stream?${params}`);
+    const text = await response.text();
+    const type = response.headers.get("content-type") || "";
+    return {
+      status: response.status,
+      type,
+      events: (type.includes("text/event-stream") ? text : "")
+        .split("\n\n")
+        .filter(Boolean)
+        .map((block) => {
+          const [event, data] = block.split("\n");
+          return {
+            event: event.replace("event: ", ""),
+            data: JSON.parse(data.replace("data: ", "")),
+          };
+        }),
+      text,
+    };
+  }
+
+  it("sends rows as they are made, then uploads and completes", async function () {
+    const { status, type, events } = await stream({});
+    const names = events.map(({ event }) => event);
+
+    expect(status).to.equal(200);
+    expect(type).to.include("text/event-stream");
+    expect(names[0]).to.equal("start");
+    expect(events[0].data).to.deep.include({
+      sample_size: 2,
+      model: "stream-stub:fixed",
+    });
+    expect(names[names.length - 1]).to.equal("complete");
+    expect(names.indexOf("uploading")).to.be.greaterThan(
+      names.lastIndexOf("row")
+    );
+    expect(names.indexOf("uploading")).to.be.greaterThan(
+      names.lastIndexOf("progress")
+    );
+    expect(
+      events
+        .filter(({ event }) => event === "row")
+        .map(({ data }) => data.index)
+    ).to.deep.equal([0, 1]);
+
+    const complete = events[events.length - 1].data;
+    expect(complete.metadata_url).to.be.a("string");
+    expect(complete.generation_stats.produced).to.equal(2);
+  });
+
+  it("ends with an error event when no row can be made", async function () {
+    const { events } = await stream({ ai_model: "stream-stub:broken" });
+    const names = events.map(({ event }) => event);
+
+    expect(names[0]).to.equal("start");
+    expect(names).not.to.include("row");
+    expect(names).not.to.include("uploading");
+    expect(events[events.length - 1]).to.deep.equal({
+      event: "error",
+      data: {
+        error: "Generation failed",
+        details: "Generation failed, no results.",
+      },
+    });
+  });
+
+  it("answers invalid requests with JSON before streaming", async function () {
+    const { status, type, text } = await stream({ sample_size: "" });
+
+    expect(status).to.equal(400);
+    expect(type).to.include("application/json");
+    expect(JSON.parse(text).missing_fields).to.deep.equal(["sample_size"]);
+  });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import {
+  assertSupportedSchema,
+  coerceToSchema,
+  toGeminiSchema,
+  validateAgainstSchema,
+} from "../scripts/json-schema";
+
+describe("Row schemas", function () {
+  const schema = {
+    type: "object",
+    properties: {
+      note: { type: "string", minLength: 5, pattern: "^[A-Z]" },
+      severity: { type: "integer", enum: [1, 2, 3] },
+      label: { type: "string", enum: ["low", "high"] },
+    },
+    required: ["note", "severity"],
+    additionalProperties: false,
+  };
+
+  it("accepts a row that satisfies the schema", function () {
+    expect(
+      validateAgainstSchema(
+        { note: "Stable", severity: 2, label: "low" },
+        schema
+      )
+    ).to.deep.equal([]);
+  });
+
+  it("reports each violated keyword with its path", function () {
+    const keywords = validateAgainstSchema(
+      { note: "ok", severity: 4, extra: true },
+      schema
+    ).map(({ path, keyword }) => `${path} ${keyword}`);
+
+    expect(keywords).to.have.members([
+      "$.note minLength",
+      "$.note pattern",
+      "$.severity enum",
+      "$.extra additionalProperties",
+    ]);
+  });
+
+  it("keeps numeric enums numeric for Gemini", function () {
+    const gemini = toGeminiSchema(schema);
+
+    expect(gemini.properties.severity).to.deep.equal({ type: "integer" });
+    expect(gemini.properties.label).to.include({ type: "string" });
+    expect(gemini.properties.label.enum).to.deep.equal(["low", "high"]);
+    expect(gemini.required).to.deep.equal(["note", "severity"]);
+  });
+
+  it("restores declared types to values read back as strings", function () {
+    expect(
+      coerceToSchema(
+        { note: "42", severity: "2", label: "low", extra: "7" },
+        schema
+      )
+    ).to.deep.equal({ note: "42", severity: 2, label: "low", extra: "7" });
+    expect(
+      coerceToSchema(
+        { flags: ["true", "no"] },
+        {
+          type: "object",
+          properties: { flags: { type: "array", items: { type: "boolean" } } },
+        }
+      )
+    ).to.deep.equal({ flags: [true, "no"] });
+  });
+
+  it("rejects unsafe or malformed schemas up front", function () {
+    const withNote = (note: any, extra: any = {}) => ({
+      type: "object",
+      properties: { note },
+      ...extra,
+    });
+
+    expect(() =>
+      assertSupportedSchema(withNote({ type: "string", pattern: "(a+)+$" }))
+    ).to.throw("nests quantifiers");
+    expect(() =>
+      assertSupportedSchema(
+        withNote({ type: "string", pattern: "a".repeat(201) })
+      )
+    ).to.throw("longer than 200");
+    expect(() =>
+      assertSupportedSchema(withNote({ type: "string", pattern: "([a-z]" }))
+    ).to.throw("Invalid pattern at $.note");
+    expect(() =>
+      assertSupportedSchema(withNote({ type: "string" }, { required: "note" }))
+    ).to.throw("required at $ must be an array of strings");
+    expect(() => assertSupportedSchema({ type: "array" })).to.throw(
+      'Row schema must have type "object"'
+    );
+  });
+});
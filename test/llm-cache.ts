@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  cacheKey,
+  cacheStats,
+  cachedGenerate,
+  clearCache,
+  useCache,
+} from "../scripts/llm-cache";
+import { GenerationRequest, LLMProvider } from "../scripts/llm-providers";
+
+describe("LLM cache", function () {
+  const ENV = ["LLM_CACHE", "LLM_CACHE_DIR", "LLM_CACHE_TTL_SECONDS"];
+  const request: GenerationRequest = {
+    prompt: "Rewrite: patient reports a mild cough.",
+    maxOutputTokens: 500,
+    temperature: 0.7,
+  };
+  let env: Record<string, string | undefined>;
+  let calls: number;
+
+  const provider: LLMProvider = {
+    name: "cache-stub",
+    async generate(model: string, { prompt }: GenerationRequest) {
+      calls++;
+      return {
+        text: prompt.includes("empty") ? "" : `{"note": "call ${calls}"}`,
+        provider: "cache-stub",
+        model,
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      };
+    },
+  };
+
+  before(function () {
+    env = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+    process.env.LLM_CACHE_DIR = fs.mkdtempSync(
+      path.join(os.tmpdir(), "llm-cache-")
+    );
+  });
+
+  beforeEach(function () {
+    calls = 0;
+    clearCache();
+  });
+
+  after(function () {
+    fs.rmSync(process.env.LLM_CACHE_DIR!, { recursive: true, force: true });
+    ENV.forEach((name) =>
+      env[name] === undefined
+        ? delete process.env[name]
+        : (process.env[name] = env[name])
+    );
+  });
+
+  it("keys entries on everything that changes the response", function () {
+    const key = cacheKey("openai", "gpt-4o", request);
+
+    expect(cacheKey("openai", "gpt-4o", { ...request })).to.equal(key);
+    expect(cacheKey("openai", "gpt-4o-mini", request)).not.to.equal(key);
+    expect(cacheKey("gemini", "gpt-4o", request)).not.to.equal(key);
+    expect(
+      cacheKey("openai", "gpt-4o", { ...request, temperature: 0.2 })
+    ).not.to.equal(key);
+    expect(
+      cacheKey("openai", "gpt-4o", {
+        ...request,
+        responseSchema: { type: "object" },
+      })
+    ).not.to.equal(key);
+  });
+
+  it("answers a repeated request from the cache", async function () {
+    const before = cacheStats();
+    const first = await cachedGenerate(provider, "fixed", request);
+    const second = await cachedGenerate(provider, "fixed", request);
+    const stats = cacheStats();
+
+    expect(calls).to.equal(1);
+    expect(first.cached).to.equal(undefined);
+    expect(second).to.deep.equal({ ...first, cached: true });
+    expect(stats.hits - before.hits).to.equal(1);
+    expect(stats.misses - before.misses).to.equal(1);
+    expect(stats.entries).to.equal(1);
+  });
+
+  it("does not store empty responses", async function () {
+    const empty = { ...request, prompt: "Return empty." };
+    await cachedGenerate(provider, "fixed", empty);
+    await cachedGenerate(provider, "fixed", empty);
+
+    expect(calls).to.equal(2);
+    expect(cacheStats().entries).to.equal(0);
+  });
+
+  it("calls the model again once an entry expires", async function () {
+    process.env.LLM_CACHE_TTL_SECONDS = "60";
+    try {
+      await cachedGenerate(provider, "fixed", request);
+      const file = path.join(
+        process.env.LLM_CACHE_DIR!,
+        `${cacheKey("cache-stub", "fixed", request)}.json`
+      );
+      const entry = JSON.parse(fs.readFileSync(file, "utf-8"));
+      entry.created_at = new Date(Date.now() - 120_000).toISOString();
+      fs.writeFileSync(file, JSON.stringify(entry));
+
+      const result = await cachedGenerate(provider, "fixed", request);
+      expect(calls).to.equal(2);
+      expect(result.cached).to.equal(undefined);
+    } finally {
+      delete process.env.LLM_CACHE_TTL_SECONDS;
+    }
+  });
+
+  it("follows LLM_CACHE unless the request chooses", function () {
+    delete process.env.LLM_CACHE;
+    expect(useCache(undefined)).to.equal(false);
+    expect(useCache("true")).to.equal(true);
+
+    process.env.LLM_CACHE = "on";
+    expect(useCache("")).to.equal(true);
+    expect(useCache(false)).to.equal(false);
+    expect(() => useCache("sometimes")).to.throw("cache must be true or false");
+  });
+});
@@ -0,0 +1,273 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import app from "../api";
+import {
+  SignableRow,
+  getGeneratorSigner,
+  signDataset,
+  signRow,
+  verifyDatasetSignatures,
+} from "../scripts/dataset-signing";
+import {
+  CONTENT_TYPES,
+  parseDataset,
+  serializeDataset,
+  typedRows,
+} from "../scripts/dataset-formats";
+import {
+  GenerationRequest,
+  registerProvider,
+  resolveModel,
+} from "../scripts/llm-providers";
+
+// The generator key is read once, on first use, so it is set before any
+// test generates rows
+process.env.GENERATOR_PRIVATE_KEY = `0x${"11".repeat(32)}`;
+
+// The generation pipeline run offline against a stubbed provider
+describe("Generation pipeline", function () {
+  const input_text =
+    "Patient has a persistent cough and mild fever for two weeks.";
+  let server: Server;
+  let baseUrl: string;
+  let calls: GenerationRequest[];
+
+  before(function (done) {
+    let call = 0;
+    registerProvider({
+      name: "stub",
+      async generate(model: string, request: GenerationRequest) {
+        calls.push(request);
+        const text =
+          model === "broken"
+            ? "not json"
+            : JSON.stringify({
+                synthetic_transcription: `Follow-up visit ${++call}: a 40 year old reports seasonal allergies.`,
+                medical_specialty: "Allergy",
+                explanation: `Outpatient allergy review number ${call}.`,
+              });
+        return { text, provider: "stub", model };
+      },
+    });
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(function () {
+    calls = [];
+  });
+
+  after(function (done) {
+    server.close(done);
+  });
+
+  async function testPrompt(ai_model: string, extra: Record<string, any> = {}) {
+    const response = await fetch(`${baseUrl}/api/test-prompt`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        input_text,
+        domain: "medical",
+        ai_model,
+        ...extra,
+      }),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  it("generates rows with the provider ai_model selects", async function () {
+    const { status, body } = await testPrompt("stub:fixed");
+
+    expect(status).to.equal(200);
+    expect(body.data).to.have.length(3);
+    expect(body.generated_with).to.deep.equal([
+      { provider: "stub", model: "fixed" },
+    ]);
+    body.data.forEach((row: any) => {
+      expect(row.generator).to.deep.equal({ provider: "stub", model: "fixed" });
+      expect(row.synthetic_output.medical_specialty).to.equal("Allergy");
+    });
+    expect(calls[0].prompt).to.include(input_text);
+  });
+
+  it("rejects every row when the output is not valid JSON", async function () {
+    const { status, body } = await testPrompt("stub:broken");
+
+    expect(status).to.equal(500);
+    expect(body.details).to.equal("Generation failed, no results.");
+    expect(calls.length).to.be.greaterThan(3);
+  });
+
+  it("stops generating once the token budget is spent", async function () {
+    const { status, body } = await testPrompt("stub:fixed", {
+      max_total_tokens: 1,
+      concurrency: 1,
+    });
+
+    expect(status).to.equal(200);
+    expect(body.data).to.have.length(1);
+    expect(calls).to.have.length(1);
+    expect(body.generation_stats.budget_exhausted).to.equal(true);
+    expect(body.generation_stats.usage.requests).to.equal(1);
+    expect(body.generation_stats.usage.total_tokens).to.be.greaterThan(1);
+  });
+
+  it("refuses a cost budget for a model without a price", async function () {
+    const { status, body } = await testPrompt("stub:fixed", {
+      max_cost_usd: 0.01,
+    });
+
+    expect(status).to.equal(400);
+    expect(body.details).to.include('No price known for model "fixed"');
+    expect(calls).to.have.length(0);
+  });
+
+  it("refuses an explicit provider with no model name", function () {
+    expect(() => resolveModel("openai:")).to.throw("names no model");
+    expect(resolveModel("openai:llama-3-70b")).to.include({
+      model: "llama-3-70b",
+    });
+  });
+});
+
+describe("Generator signatures", function () {
+  let server: Server;
+  let baseUrl: string;
+
+  function signed(notes: string[]) {
+    const rows: SignableRow[] = notes.map((note) => ({
+      synthetic_output: { note, severity: 2 },
+      generator: { provider: "stub", model: "fixed" },
+    }));
+    rows.forEach((row) => (row.signature = signRow(row)));
+    return { rows, signing: signDataset(rows)! };
+  }
+
+  before(function (done) {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  after(function (done) {
+    server.close(done);
+  });
+
+  it("verifies rows and the dataset it signed", function () {
+    const { rows, signing } = signed(["Mild cough.", "Chest pain."]);
+    const report = verifyDatasetSignatures(
+      rows,
+      signing.signer,
+      signing.signature
+    );
+
+    expect(signing.signer).to.equal(getGeneratorSigner()!.address);
+    expect(report.valid).to.equal(true);
+    expect(report.summary).to.deep.equal({
+      total: 2,
+      valid: 2,
+      invalid: 0,
+      unsigned: 0,
+    });
+    expect(report.dataset).to.include({ valid: true });
+  });
+
+  it("fails a row whose output was edited", function () {
+    const { rows, signing } = signed(["Mild cough.", "Chest pain."]);
+    rows[1].synthetic_output.severity = 3;
+    const report = verifyDatasetSignatures(
+      rows,
+      signing.signer,
+      signing.signature
+    );
+
+    expect(report.rows.map((row) => row.status)).to.deep.equal([
+      "valid",
+      "invalid",
+    ]);
+    expect(report.dataset).to.include({ valid: false });
+    expect(report.valid).to.equal(false);
+  });
+
+  it("fails a dataset signature taken from another dataset", function () {
+    const { rows, signing } = signed(["Mild cough.", "Chest pain."]);
+    const other = signed(["Sore throat."]).signing;
+    const report = verifyDatasetSignatures(
+      rows,
+      signing.signer,
+      other.signature
+    );
+
+    expect(report.summary.valid).to.equal(2);
+    expect(report.dataset).to.include({ valid: false });
+    expect(report.valid).to.equal(false);
+  });
+
+  it("reports a row without a generator as invalid", async function () {
+    const { rows, signing } = signed(["Mild cough."]);
+    const response = await fetch(`${baseUrl}/api/dataset/verify-signatures`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: [...rows, { synthetic_output: { note: "Added by hand." } }],
+        metadata: { signing },
+      }),
+    });
+    const body = (await response.json()) as any;
+
+    expect(response.status).to.equal(200);
+    expect(body).to.include({
+      valid: false,
+      signer_source: "generator",
+      generator_key: true,
+    });
+    expect(body.rows[1]).to.include({
+      status: "invalid",
+      reason: "Row has no synthetic_output object or generator",
+    });
+    expect(body.dataset).to.include({ valid: false });
+  });
+
+  it("verifies rows read back from CSV once their types are restored", function () {
+    const { rows, signing } = signed(["Mild cough.", "Chest pain."]);
+    const parsed = parseDataset(
+      serializeDataset(rows, "csv"),
+      CONTENT_TYPES.csv
+    );
+    const row_schema = {
+      type: "object",
+      properties: { note: { type: "string" }, severity: { type: "integer" } },
+    };
+
+    expect(parsed[0].synthetic_output.severity).to.equal("2");
+    expect(
+      verifyDatasetSignatures(parsed, signing.signer, signing.signature).valid
+    ).to.equal(false);
+    expect(
+      verifyDatasetSignatures(
+        typedRows(parsed, row_schema),
+        signing.signer,
+        signing.signature
+      ).valid
+    ).to.equal(true);
+  });
+
+  it("refuses to verify a chat-jsonl dataset", async function () {
+    const { rows, signing } = signed(["Mild cough."]);
+    const response = await fetch(`${baseUrl}/api/dataset/verify-signatures`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: rows,
+        metadata: { signing, content_format: "chat-jsonl" },
+      }),
+    });
+
+    expect(response.status).to.equal(400);
+    expect(((await response.json()) as any).error).to.include("chat-jsonl");
+  });
+});
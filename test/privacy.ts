@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BASELINE_DETECTORS,
+  getTokenMap,
+  listDetectors,
+  redactInputs,
+  redactText,
+  redactTexts,
+  registerDetector,
+  restoreText,
+} from "../scripts/redaction";
+import { scoreLeakage } from "../scripts/privacy-leakage";
+
+describe("Redaction", function () {
+  const note =
+    "Dr. Alice Moreno saw patient John Smith (MRN: 4829301) on 03/14/2024. Call John Smith at 555-201-3344 or jsmith@example.com.";
+
+  it("replaces detected values with stable tokens", function () {
+    const { text, report, tokens } = redactText(note);
+
+    ["Alice Moreno", "John Smith", "4829301", "555-201-3344"].forEach((value) =>
+      expect(text).not.to.include(value)
+    );
+    expect(text).not.to.include("jsmith@example.com");
+    expect(text.match(/\[NAME_\d\]/g)).to.have.length(3);
+    expect(text).to.include("MRN: ");
+    expect(report.tokens.map(({ token }) => token)).to.deep.equal(
+      Object.keys(tokens)
+    );
+    expect(restoreText(text, tokens)).to.equal(note);
+  });
+
+  it("shares tokens across texts redacted together", function () {
+    const { texts } = redactTexts([
+      "Patient John Smith reports headaches.",
+      "Mr. John Smith returned for follow-up.",
+    ]);
+    const token = texts[0].match(/\[NAME_\d\]/)![0];
+
+    expect(texts[1]).to.include(token);
+  });
+
+  it("rejects an unknown detector", function () {
+    expect(() => redactText(note, ["name", "ssn"])).to.throw(
+      'Unknown redaction detector "ssn"'
+    );
+  });
+
+  it("detects each built-in kind of value", function () {
+    const cases: Array<[string, string, string[]]> = [
+      [
+        "email",
+        "Write to jane.doe@example.org today.",
+        ["jane.doe@example.org"],
+      ],
+      ["mrn", "Chart MRN: 4829301 reviewed.", ["4829301"]],
+      [
+        "account",
+        "Account number: 12345678, card 4111 1111 1111 1111, SSN 123-45-6789.",
+        ["12345678", "4111 1111 1111 1111", "123-45-6789"],
+      ],
+      ["phone", "Call (555) 201-3344 after noon.", ["(555) 201-3344"]],
+      [
+        "date",
+        "Seen on 03/14/2024 and March 20, 2024.",
+        ["03/14/2024", "March 20, 2024"],
+      ],
+      [
+        "address",
+        "Lives at 42 Oak Street, Springfield IL 62704 with family.",
+        ["42 Oak Street, Springfield IL 62704"],
+      ],
+      ["name", "Referred by Dr. Alice Moreno last week.", ["Alice Moreno"]],
+    ];
+
+    expect(listDetectors()).to.include.members(cases.map(([name]) => name));
+    cases.forEach(([name, text, values]) => {
+      const { tokens } = redactText(text, [name]);
+      expect(Object.values(tokens)).to.deep.equal(values);
+      Object.keys(tokens).forEach((token) =>
+        expect(token).to.match(new RegExp(`^\\[${name.toUpperCase()}_\\d\\]$`))
+      );
+    });
+  });
+
+  it("always runs the baseline detectors", function () {
+    const text =
+      "Dr. Alice Moreno, MRN: 4829301, 555-201-3344, jsmith@example.com on 03/14/2024";
+
+    [[], ["date"]].forEach((selected) => {
+      const { text: redacted, report } = redactText(text, selected);
+      expect(report.detectors).to.include.members(BASELINE_DETECTORS);
+      ["4829301", "555-201-3344", "jsmith@example.com"].forEach((value) =>
+        expect(redacted).not.to.include(value)
+      );
+      expect(redacted).to.include("Alice Moreno");
+    });
+  });
+
+  it("runs a registered detector when it is selected", function () {
+    registerDetector({
+      name: "badge",
+      detect: (text) =>
+        Array.from(text.matchAll(/\bBDG-\d{4}\b/g)).map((match) => ({
+          type: "badge",
+          start: match.index!,
+          end: match.index! + match[0].length,
+          value: match[0],
+        })),
+    });
+
+    expect(redactText("Badge BDG-1234 at the desk.", ["badge"]).text).to.equal(
+      "Badge [BADGE_1] at the desk."
+    );
+    expect(redactText("Badge BDG-1234 at the desk.", []).text).to.include(
+      "BDG-1234"
+    );
+  });
+
+  it("keeps the token map locally to restore the original text", function () {
+    const MAPS_FILE = path.resolve(__dirname, "../redaction-maps.json");
+    const saved = fs.existsSync(MAPS_FILE)
+      ? fs.readFileSync(MAPS_FILE, "utf-8")
+      : null;
+    try {
+      const { texts, report } = redactInputs([note]);
+
+      expect(JSON.stringify(report)).not.to.include("John Smith");
+      expect(restoreText(texts[0], getTokenMap(report.id)!)).to.equal(note);
+      expect(getTokenMap("missing")).to.equal(null);
+
+      // A later input joins the same map and report
+      const more = redactInputs(
+        ["Write to jsmith@example.com or ops@example.com."],
+        undefined,
+        report
+      );
+      expect(more.texts[0]).to.equal("Write to [EMAIL_1] or [EMAIL_2].");
+      expect(more.report).to.include({
+        id: report.id,
+        total: report.total + 2,
+      });
+      expect(more.report.by_type.email).to.equal(report.by_type.email + 2);
+      expect(getTokenMap(report.id)).to.include({
+        "[NAME_1]": "Alice Moreno",
+        "[EMAIL_2]": "ops@example.com",
+      });
+    } finally {
+      if (saved === null) {
+        fs.rmSync(MAPS_FILE, { force: true });
+      } else {
+        fs.writeFileSync(MAPS_FILE, saved);
+      }
+    }
+  });
+});
+
+describe("Leakage scoring", function () {
+  const source =
+    "Patient John Smith was admitted to General Hospital under Internal Medicine with chest pain.";
+
+  it("passes a paraphrase that only repeats a label", function () {
+    const score = scoreLeakage(source, {
+      synthetic_transcription:
+        "A middle-aged adult presented with pressure behind the sternum after exertion.",
+      medical_specialty: "Internal Medicine",
+    });
+
+    expect(score.leaked_entities).to.deep.equal([]);
+    expect(score.status).to.equal("pass");
+  });
+
+  it("rejects an output that copies a name from the source", function () {
+    const score = scoreLeakage(source, {
+      synthetic_transcription:
+        "The clinic followed up with John Smith about recurring discomfort.",
+      medical_specialty: "Cardiology",
+    });
+
+    expect(score.leaked_entities).to.deep.equal([
+      { type: "name", value: "Patient John Smith" },
+    ]);
+    expect(score.score).to.equal(1);
+    expect(score.status).to.equal("rejected");
+  });
+
+  it("flags copied text instead of rejecting when configured to", function () {
+    const score = scoreLeakage(
+      source,
+      { text: source },
+      {
+        threshold: 0.5,
+        action: "flag",
+      }
+    );
+
+    expect(score.ngram_overlap).to.equal(1);
+    expect(score.status).to.equal("flagged");
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import app from "../api";
+import { registerProvider } from "../scripts/llm-providers";
+import {
+  VariantResult,
+  getExperiment,
+  normalizeVariants,
+  pickWinner,
+  variantScore,
+} from "../scripts/prompt-experiments";
+import { selectTemplate } from "../scripts/prompt-templates";
+
+describe("Prompt experiments", function () {
+  const EXPERIMENTS_FILE = path.resolve(__dirname, "../experiments.json");
+  const USER_TEMPLATES_DIR = path.resolve(__dirname, "../user-templates");
+  const DEFAULTS_FILE = path.join(USER_TEMPLATES_DIR, "defaults.json");
+  const PROMOTED_FILE = path.join(
+    USER_TEMPLATES_DIR,
+    "medical-veterinary.v1.json"
+  );
+  let server: Server;
+  let baseUrl: string;
+  let saved: Record<string, string | null>;
+  let hadUserTemplates: boolean;
+
+  const read = (file: string) =>
+    fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null;
+
+  before(function (done) {
+    let call = 0;
+    registerProvider({
+      name: "experiment-stub",
+      async generate(model: string) {
+        const text =
+          model === "broken"
+            ? "not json"
+            : JSON.stringify({
+                synthetic_transcription: `Visit ${++call}: a ${
+                  2 + call
+                } year old dog limps after a long walk in the park.`,
+                medical_specialty: "Veterinary",
+                explanation: `Lameness check number ${call}.`,
+              });
+        return { text, provider: "experiment-stub", model };
+      },
+    });
+    hadUserTemplates = fs.existsSync(USER_TEMPLATES_DIR);
+    saved = Object.fromEntries(
+      [EXPERIMENTS_FILE, DEFAULTS_FILE].map((file) => [file, read(file)])
+    );
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  after(function (done) {
+    Object.entries(saved).forEach(([file, content]) =>
+      content === null
+        ? fs.rmSync(file, { force: true })
+        : fs.writeFileSync(file, content)
+    );
+    fs.rmSync(PROMOTED_FILE, { force: true });
+    if (!hadUserTemplates) {
+      fs.rmSync(USER_TEMPLATES_DIR, { recursive: true, force: true });
+    }
+    server.close(done);
+  });
+
+  async function post(url: string, body: Record<string, any>) {
+    const response = await fetch(`${baseUrl}${url}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  it("names variants and rejects duplicates", function () {
+    expect(
+      normalizeVariants([{}, { name: "short" }]).map((v) => v.name)
+    ).to.deep.equal(["A", "short"]);
+    expect(() => normalizeVariants([{}])).to.throw("at least 2 variants");
+    expect(() => normalizeVariants([{ name: "B" }, {}])).to.throw(
+      'Duplicate variant name "B"'
+    );
+  });
+
+  it("picks the best scoring variant, then the faster one", function () {
+    const result = (
+      name: string,
+      score: Omit<Parameters<typeof variantScore>[0], "latency_ms">,
+      latency_ms: number
+    ) =>
+      ({
+        name,
+        scores: variantScore({ ...score, latency_ms }),
+        samples: [{}],
+      } as VariantResult);
+    const good = {
+      validation_pass_rate: 1,
+      leakage_mean: 0.1,
+      leakage_rejected: 0,
+      diversity_score: 0.8,
+    };
+
+    expect(variantScore({ ...good, latency_ms: 5 }).score).to.equal(0.9);
+    expect(
+      pickWinner([
+        result("slow", good, 900),
+        result("fast", good, 300),
+        result("leaky", { ...good, leakage_mean: 0.6 }, 100),
+      ])
+    ).to.equal("fast");
+    expect(pickWinner([{ ...result("failed", good, 1), error: "x" }])).to.equal(
+      null
+    );
+  });
+
+  it("promotes the winner as the default template of the domain", async function () {
+    const experiment = await post("/api/test-prompt", {
+      input_text: "Dog limps on the left hind leg after a long walk.",
+      domain: "veterinary",
+      sample_size: 2,
+      variants: [
+        {
+          name: "plain",
+          ai_model: "experiment-stub:fixed",
+          instructions: "Rewrite the visit note for a veterinary clinic.",
+        },
+        { name: "broken", ai_model: "experiment-stub:broken" },
+      ],
+    });
+
+    expect(experiment.status).to.equal(200);
+    expect(experiment.body.winner).to.equal("plain");
+    expect(
+      experiment.body.comparison.find((c: any) => c.name === "broken")
+    ).to.include({ validation_pass_rate: 0 });
+
+    const unknown = await post(experiment.body.promote_url, {
+      variant: "missing",
+    });
+    expect(unknown.status).to.equal(400);
+    expect(unknown.body.variants).to.deep.equal(["plain", "broken"]);
+
+    const promoted = await post(experiment.body.promote_url, {});
+    expect(promoted.status).to.equal(200);
+    expect(promoted.body.template).to.deep.equal({
+      template_id: "medical-veterinary",
+      template_version: 1,
+    });
+
+    const template = selectTemplate({ domain: "Veterinary" });
+    expect(template.id).to.equal("medical-veterinary");
+    expect(template.instructions).to.equal(
+      "Rewrite the visit note for a veterinary clinic."
+    );
+    expect(selectTemplate({ domain: "cardiology" }).id).to.equal("medical");
+    expect(getExperiment(experiment.body.experiment_id)!.promoted).to.include({
+      variant: "plain",
+      template_id: "medical-veterinary",
+    });
+  });
+
+  it("answers 404 for an unknown experiment", async function () {
+    const { status } = await post("/api/experiments/missing/promote", {});
+
+    expect(status).to.equal(404);
+  });
+});
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getTemplate,
+  listTemplates,
+  renderPrompt,
+  saveTemplateVersion,
+  selectTemplate,
+  templateResponseSchema,
+} from "../scripts/prompt-templates";
+
+describe("Prompt templates", function () {
+  const USER_TEMPLATES_DIR = path.resolve(__dirname, "../user-templates");
+  const saved: string[] = [];
+  let hadUserTemplates: boolean;
+
+  before(function () {
+    hadUserTemplates = fs.existsSync(USER_TEMPLATES_DIR);
+  });
+
+  after(function () {
+    saved.forEach((file) =>
+      fs.rmSync(path.join(USER_TEMPLATES_DIR, file), { force: true })
+    );
+    if (!hadUserTemplates) {
+      fs.rmSync(USER_TEMPLATES_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it("picks the template listing the request's domain", function () {
+    expect(selectTemplate({ domain: "Banking" }).id).to.equal("finance");
+    expect(selectTemplate({ domain: "clinical" }).id).to.equal("medical");
+    expect(selectTemplate({ domain: "astronomy" }).id).to.equal("medical");
+    expect(
+      selectTemplate({ domain: "medical", template_id: "legal" }).id
+    ).to.equal("legal");
+  });
+
+  it("serves the latest version unless a version is pinned", function () {
+    const base = getTemplate("legal");
+    const next = saveTemplateVersion({
+      ...base,
+      id: "test-legal",
+      instructions: "Rewrite the clause in plain English.",
+    });
+    saved.push(`test-legal.v${next.version}.json`);
+    const second = saveTemplateVersion({
+      ...next,
+      instructions: "Rewrite the clause for a contract summary.",
+    });
+    saved.push(`test-legal.v${second.version}.json`);
+
+    expect([next.version, second.version]).to.deep.equal([1, 2]);
+    expect(getTemplate("test-legal").instructions).to.equal(
+      "Rewrite the clause for a contract summary."
+    );
+    expect(getTemplate("test-legal", 1).instructions).to.equal(
+      "Rewrite the clause in plain English."
+    );
+    expect(listTemplates().find((t) => t.id === "test-legal")).to.deep.include({
+      version: 2,
+      versions: [1, 2],
+    });
+    expect(() => getTemplate("test-legal", 3)).to.throw(
+      "Template test-legal has no version 3"
+    );
+    expect(() => getTemplate("missing")).to.throw("Unknown template: missing");
+  });
+
+  it("renders the source text, output keys and examples", function () {
+    const template = getTemplate("finance", 1);
+    const prompt = renderPrompt(template, "Wire of $5000 at 3AM.");
+
+    expect(prompt).to.include(
+      `${template.input_label}:\n"Wire of $5000 at 3AM."`
+    );
+    Object.keys(template.output_keys).forEach((key) =>
+      expect(prompt).to.include(`- "${key}": `)
+    );
+    expect(prompt).to.include("Example Output:");
+    expect(templateResponseSchema(template).required).to.deep.equal(
+      Object.keys(template.output_keys)
+    );
+  });
+
+  it("asks for the request's schema instead of the template keys", function () {
+    const prompt = renderPrompt(
+      getTemplate("medical"),
+      "Patient reports a mild cough.",
+      {
+        type: "object",
+        properties: { note: { type: "string", description: "Short note" } },
+      },
+      "Vary the patient's age."
+    );
+
+    expect(prompt).to.include('- "note": Short note');
+    expect(prompt).to.include("Vary the patient's age.");
+    expect(prompt).not.to.include("synthetic_transcription");
+    expect(prompt).not.to.include("Example Output:");
+  });
+});
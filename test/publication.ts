@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import {
+  DEFAULT_PUBLICATION_PROFILE,
+  NO_SOURCE_URL,
+  PUBLICATION_PROFILES,
+  preparePublication,
+  resolvePublicationProfile,
+  sourceHash,
+} from "../scripts/publication";
+
+describe("Publication profiles", function () {
+  const input_text =
+    "Patient [NAME_1], 54, presented with crushing chest pain radiating to the left arm.";
+
+  function rows() {
+    return [0, 1].map((index) => ({
+      original_text: input_text,
+      synthetic_output: {
+        transcription: `Case ${index}: a 61 year old reports shortness of breath.`,
+        keywords: "dyspnea, cardiology",
+      },
+      generator: { provider: "local", model: "local" },
+      verification_status: "verified",
+      violations: [],
+      signature: "0x",
+      privacy: {
+        score: 1,
+        status: "flagged",
+        leaked_entities: [{ type: "name", value: "crushing chest pain" }],
+      },
+    }));
+  }
+
+  function metadata() {
+    return {
+      name: "Cardiology notes",
+      description: "Synthetic cardiology notes",
+      input_text,
+      sample_size: 2,
+    };
+  }
+
+  // Every payload the API uploads or writes on-chain for a dataset
+  function uploadedPayloads(profile = DEFAULT_PUBLICATION_PROFILE) {
+    const publication = preparePublication(
+      rows(),
+      input_text,
+      metadata(),
+      profile
+    );
+    return {
+      publication,
+      payloads: [
+        JSON.stringify(publication.rows),
+        JSON.stringify(publication.metadata),
+        publication.source_url,
+      ],
+    };
+  }
+
+  it("Should default to synthetic-only", function () {
+    expect(DEFAULT_PUBLICATION_PROFILE).to.equal("synthetic-only");
+    expect(resolvePublicationProfile(undefined)).to.equal("synthetic-only");
+  });
+
+  it("Should reject unknown profiles and public full-private datasets", function () {
+    expect(() => resolvePublicationProfile("everything")).to.throw(
+      "Unknown publication_profile"
+    );
+    expect(() => resolvePublicationProfile("full-private", "public")).to.throw(
+      'requires visibility "private"'
+    );
+    expect(resolvePublicationProfile("full-private", "private")).to.equal(
+      "full-private"
+    );
+  });
+
+  for (const profile of PUBLICATION_PROFILES) {
+    it(`Should keep the source out of metadata and source_url (${profile})`, function () {
+      const { publication } = uploadedPayloads(profile);
+      expect(JSON.stringify(publication.metadata)).to.not.include(input_text);
+      expect(publication.metadata).to.not.have.property("input_text");
+      expect(publication.source_url).to.not.include(input_text);
+      expect(publication.metadata.publication_profile).to.equal(profile);
+    });
+  }
+
+  for (const profile of ["synthetic-only", "with-hashed-source"] as const) {
+    it(`Should not upload any original text (${profile})`, function () {
+      const { publication, payloads } = uploadedPayloads(profile);
+      payloads.forEach((payload) => {
+        expect(payload).to.not.include(input_text);
+        expect(payload).to.not.include("crushing chest pain");
+      });
+      publication.rows.forEach((row) => {
+        expect(row).to.not.have.property("original_text");
+        expect(row.synthetic_output).to.have.property("transcription");
+      });
+    });
+  }
+
+  it("Should publish no source reference with synthetic-only", function () {
+    const { publication } = uploadedPayloads("synthetic-only");
+    expect(publication.source_url).to.equal(NO_SOURCE_URL);
+    expect(publication.metadata).to.not.have.property("input_text_hash");
+    publication.rows.forEach((row) =>
+      expect(row).to.not.have.property("source_hash")
+    );
+  });
+
+  it("Should publish source hashes with with-hashed-source", function () {
+    const { publication } = uploadedPayloads("with-hashed-source");
+    const hash = sourceHash(input_text);
+    expect(hash).to.match(/^sha256:[0-9a-f]{64}$/);
+    expect(publication.source_url).to.equal(hash);
+    expect(publication.metadata.input_text_hash).to.equal(hash);
+    publication.rows.forEach((row) => expect(row.source_hash).to.equal(hash));
+  });
+
+  it("Should keep originals in the rows only with full-private", function () {
+    const { publication } = uploadedPayloads("full-private");
+    publication.rows.forEach((row) =>
+      expect(row.original_text).to.equal(input_text)
+    );
+  });
+
+  it("Should refuse metadata that copies the source", function () {
+    expect(() =>
+      preparePublication(rows(), input_text, {
+        description: `Generated from: ${input_text}`,
+      })
+    ).to.throw("payload contains source text");
+  });
+});
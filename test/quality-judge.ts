@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import app from "../api";
+import {
+  JudgeConfig,
+  buildQualityReport,
+  parseJudgement,
+  resolveMinScore,
+  rubric,
+} from "../scripts/quality-judge";
+import {
+  GenerationRequest,
+  registerProvider,
+  resolveModel,
+} from "../scripts/llm-providers";
+import { getTemplate } from "../scripts/prompt-templates";
+
+describe("Quality judge", function () {
+  const judge = { provider: "judge-stub", model: "rater" };
+  const usage = { input_tokens: 500, output_tokens: 500, total_tokens: 1000 };
+  let server: Server;
+  let baseUrl: string;
+  let prices: string | undefined;
+  let calls: string[];
+
+  before(function (done) {
+    let call = 0;
+    registerProvider({
+      name: "judge-stub",
+      async generate(model: string, request: GenerationRequest) {
+        calls.push(model);
+        const text = request.prompt.startsWith("You are reviewing")
+          ? JSON.stringify({
+              coherence: 5,
+              domain_plausibility: 4,
+              label_consistency: 5,
+              explanation_accuracy: 5,
+              rationale: "Reads like a real visit note.",
+            })
+          : JSON.stringify({
+              synthetic_transcription: `Visit ${++call}: a ${
+                20 + call
+              } year old describes a swollen joint following a tackle.`,
+              medical_specialty: "Orthopedics",
+              explanation: `Knee injury review number ${call}.`,
+            });
+        return { text, provider: "judge-stub", model, usage };
+      },
+    });
+    prices = process.env.LLM_PRICES;
+    process.env.LLM_PRICES = JSON.stringify({
+      writer: { input: 1, output: 1 },
+      rater: { input: 1, output: 1 },
+    });
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(function () {
+    calls = [];
+  });
+
+  after(function (done) {
+    if (prices === undefined) {
+      delete process.env.LLM_PRICES;
+    } else {
+      process.env.LLM_PRICES = prices;
+    }
+    server.close(done);
+  });
+
+  async function testPrompt(extra: Record<string, any>) {
+    const response = await fetch(`${baseUrl}/api/test-prompt`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        input_text: "Knee pain after football practice.",
+        domain: "medical",
+        ai_model: "judge-stub:writer",
+        concurrency: 1,
+        ...extra,
+      }),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  it("asks about labels and explanations only when the row has them", function () {
+    const template = getTemplate("medical");
+    const names = (output: Record<string, any>) =>
+      rubric(template, "medical", output).map(({ name }) => name);
+
+    expect(names({ synthetic_transcription: "..." })).to.deep.equal([
+      "coherence",
+      "domain_plausibility",
+    ]);
+    expect(
+      names({ medical_specialty: "Orthopedics", explanation: "..." })
+    ).to.deep.equal([
+      "coherence",
+      "domain_plausibility",
+      "label_consistency",
+      "explanation_accuracy",
+    ]);
+  });
+
+  it("scales scores to 0-1 and rejects rows below the minimum", function () {
+    const criteria = rubric(getTemplate("medical"), "medical", {});
+    const answer = JSON.stringify({
+      coherence: 5,
+      domain_plausibility: 2,
+      rationale: "Implausible dosage.",
+    });
+
+    expect(parseJudgement(criteria, answer, judge, null)).to.deep.equal({
+      criteria: { coherence: 1, domain_plausibility: 0.25 },
+      score: 0.625,
+      rationale: "Implausible dosage.",
+      judge,
+      status: "pass",
+    });
+    expect(parseJudgement(criteria, answer, judge, 0.7).status).to.equal(
+      "rejected"
+    );
+    expect(() =>
+      parseJudgement(criteria, '{"coherence": 9}', judge, null)
+    ).to.throw("Judge returned no valid score for coherence");
+    expect(() => resolveMinScore(1.5)).to.throw(
+      "min_quality_score must be between 0 and 1"
+    );
+  });
+
+  it("summarises the scores of a dataset", function () {
+    const criteria = rubric(getTemplate("medical"), "medical", {});
+    const config: JudgeConfig = {
+      llm: resolveModel("judge-stub:rater"),
+      domain: "medical",
+      min_score: 0.5,
+    };
+    const report = buildQualityReport(
+      [
+        parseJudgement(
+          criteria,
+          '{"coherence": 5, "domain_plausibility": 5}',
+          judge,
+          0.5
+        ),
+        parseJudgement(
+          criteria,
+          '{"coherence": 3, "domain_plausibility": 4}',
+          judge,
+          0.5
+        ),
+      ],
+      config,
+      1
+    );
+
+    expect(report).to.deep.include({
+      judge: "judge-stub:rater",
+      rows_scored: 2,
+      rejected: 1,
+      mean_score: 0.8125,
+      min_row_score: 0.625,
+      criteria: { coherence: 0.75, domain_plausibility: 0.875 },
+    });
+  });
+
+  it("counts judge calls against the cost budget", async function () {
+    const unjudged = await testPrompt({ max_cost_usd: 0.0015 });
+    const judged = await testPrompt({
+      max_cost_usd: 0.0015,
+      judge_model: "judge-stub:rater",
+    });
+
+    expect(unjudged.status).to.equal(200);
+    expect(unjudged.body.data).to.have.length(2);
+    expect(judged.status).to.equal(200);
+    expect(calls.slice(-2)).to.deep.equal(["writer", "rater"]);
+    expect(judged.body.data).to.have.length(1);
+    expect(judged.body.data[0].quality).to.include({ status: "pass" });
+    expect(judged.body.generation_stats.budget_exhausted).to.equal(true);
+    expect(judged.body.generation_stats.usage).to.include({
+      requests: 2,
+      cost_usd: 0.002,
+    });
+  });
+
+  it("refuses a cost budget when the judge model has no price", async function () {
+    const { status, body } = await testPrompt({
+      max_cost_usd: 1,
+      judge_model: "judge-stub:unpriced",
+    });
+
+    expect(status).to.equal(400);
+    expect(body.details).to.include('No price known for model "unpriced"');
+    expect(calls).to.deep.equal([]);
+  });
+});
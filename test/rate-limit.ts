@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import {
+  RateLimiter,
+  RetryOptions,
+  backoffDelay,
+  isTransientError,
+  withRetry,
+} from "../scripts/rate-limit";
+
+describe("Rate limiting and retries", function () {
+  const options: RetryOptions = {
+    maxRetries: 2,
+    baseDelayMs: 1,
+    maxDelayMs: 4,
+  };
+
+  // Fails with each error in turn, then succeeds
+  function flaky(errors: any[]) {
+    let calls = 0;
+    const fn = async () => {
+      calls++;
+      if (errors.length > 0) throw errors.shift();
+      return "ok";
+    };
+    return { fn, calls: () => calls };
+  }
+
+  it("spaces calls to the requests-per-minute limit", async function () {
+    const limiter = new RateLimiter(1200);
+    const started = Date.now();
+    await Promise.all([
+      limiter.acquire(),
+      limiter.acquire(),
+      limiter.acquire(),
+    ]);
+
+    expect(Date.now() - started).to.be.at.least(95);
+  });
+
+  it("does not wait without a limit", async function () {
+    const limiter = new RateLimiter(0);
+    const started = Date.now();
+    for (let i = 0; i < 5; i++) await limiter.acquire();
+
+    expect(Date.now() - started).to.be.below(20);
+  });
+
+  it("retries rate limits, server errors and dropped connections", function () {
+    expect(isTransientError({ status: 429 })).to.equal(true);
+    expect(isTransientError({ response: { status: 503 } })).to.equal(true);
+    expect(isTransientError({ code: "ECONNRESET" })).to.equal(true);
+    expect(isTransientError(new Error("RESOURCE_EXHAUSTED: quota"))).to.equal(
+      true
+    );
+    expect(isTransientError({ status: 400 })).to.equal(false);
+    expect(isTransientError(new Error("Invalid API key"))).to.equal(false);
+  });
+
+  it("keeps the backoff under its ceiling", function () {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = backoffDelay(attempt, options);
+      expect(delay).to.be.at.least(0);
+      expect(delay).to.be.at.most(Math.min(4, 2 ** attempt));
+    }
+  });
+
+  it("succeeds after transient failures within the retry limit", async function () {
+    const retries: number[] = [];
+    const call = flaky([{ status: 429 }, { status: 502 }]);
+
+    expect(
+      await withRetry(call.fn, {
+        ...options,
+        onRetry: (_, attempt) => retries.push(attempt),
+      })
+    ).to.equal("ok");
+    expect(call.calls()).to.equal(3);
+    expect(retries).to.deep.equal([1, 2]);
+  });
+
+  it("gives up on permanent errors and after the last retry", async function () {
+    const permanent = flaky([new Error("Invalid API key")]);
+    const exhausted = flaky([
+      { status: 429 },
+      { status: 429 },
+      { status: 429 },
+    ]);
+
+    const failure = async (fn: () => Promise<string>) =>
+      withRetry(fn, options).catch((error) => error);
+
+    expect((await failure(permanent.fn)).message).to.equal("Invalid API key");
+    expect(permanent.calls()).to.equal(1);
+    expect(await failure(exhausted.fn)).to.deep.equal({ status: 429 });
+    expect(exhausted.calls()).to.equal(3);
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// The backend is chosen once per process, so each case loads the module
+// again under its own environment
+function setEnv(env: Record<string, string | undefined>) {
+  Object.entries(env).forEach(([name, value]) =>
+    value === undefined ? delete process.env[name] : (process.env[name] = value)
+  );
+}
+
+function loadStorage(env: Record<string, string | undefined>) {
+  setEnv(env);
+  delete require.cache[require.resolve("../scripts/storage")];
+  return require("../scripts/storage") as typeof import("../scripts/storage");
+}
+
+describe("Storage backends", function () {
+  const ENV = ["STORAGE_BACKEND", "STORAGE_DIR", "STORAGE_PUBLIC_URL"];
+  const STORAGE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "sagasynth-"));
+  let env: Record<string, string | undefined>;
+
+  before(function () {
+    env = Object.fromEntries(ENV.map((name) => [name, process.env[name]]));
+  });
+
+  after(function () {
+    fs.rmSync(STORAGE_DIR, { recursive: true, force: true });
+    setEnv(env);
+  });
+
+  const local = () =>
+    loadStorage({
+      STORAGE_BACKEND: "local",
+      STORAGE_DIR,
+      STORAGE_PUBLIC_URL: "http://storage.test/",
+    });
+
+  it("uses Irys unless STORAGE_BACKEND names another backend", function () {
+    expect(
+      loadStorage({ STORAGE_BACKEND: undefined }).getStorage().name
+    ).to.equal("irys");
+    expect(
+      loadStorage({ STORAGE_BACKEND: "Local" }).getStorage().name
+    ).to.equal("local");
+    expect(() => loadStorage({ STORAGE_BACKEND: "s3" }).getStorage()).to.throw(
+      'Unknown STORAGE_BACKEND "s3". Available: irys, local'
+    );
+  });
+
+  it("serves local objects only from the local backend", function () {
+    expect(
+      loadStorage({ STORAGE_BACKEND: "irys" }).readLocalObject("0".repeat(64))
+    ).to.equal(null);
+    expect(() => local().readLocalObject("../history.json")).to.throw(
+      "Invalid storage id"
+    );
+  });
+
+  it("stores content under its hash with its content type", async function () {
+    const { getStorage, fetchJson, readLocalObject } = local();
+    const storage = getStorage();
+    const tags = [{ name: "Content-Type", value: "application/json" }];
+
+    const url = await storage.upload('{"rows": 2}', tags);
+    const id = url.split("/").pop()!;
+
+    expect(url).to.equal(`http://storage.test/api/storage/${id}`);
+    expect(await storage.upload(Buffer.from('{"rows": 2}'), tags)).to.equal(
+      url
+    );
+    expect(await fetchJson(url)).to.deep.equal({ rows: 2 });
+    expect(readLocalObject(id)!.content_type).to.equal("application/json");
+    expect(await storage.price(2048)).to.deep.equal({
+      bytes: 2048,
+      amount: "0",
+      currency: "none",
+    });
+  });
+
+  it("finds uploads by their tags, newest first", async function () {
+    const storage = local().getStorage();
+    const tag = { name: "App-Name", value: "Storage-Test" };
+    const first = await storage.upload("first", [tag]);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await storage.upload("second", [
+      tag,
+      { name: "Type", value: "manifest" },
+    ]);
+
+    expect((await storage.query([tag])).map((e) => e.url)).to.deep.equal([
+      second,
+      first,
+    ]);
+    expect(
+      (await storage.query([tag, { name: "Type", value: "manifest" }])).map(
+        (e) => e.url
+      )
+    ).to.deep.equal([second]);
+    expect(await storage.query([tag], 1)).to.have.length(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import {
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  addUsage,
+  budgetExhausted,
+  emptyUsage,
+  modelPrice,
+  remainingBudget,
+  resolveBudget,
+  resolveMaxOutputTokens,
+  sumUsage,
+  usageCost,
+} from "../scripts/token-usage";
+
+describe("Token usage", function () {
+  const usage = { input_tokens: 1000, output_tokens: 500, total_tokens: 1500 };
+
+  afterEach(function () {
+    delete process.env.LLM_PRICES;
+  });
+
+  it("prices dated snapshots and configured models", function () {
+    expect(modelPrice("gpt-4o-2024-08-06")).to.deep.equal(modelPrice("gpt-4o"));
+    expect(modelPrice("gpt-4o-mini-2024-07-18")).to.deep.equal(
+      modelPrice("gpt-4o-mini")
+    );
+    expect(modelPrice("llama-3-70b")).to.equal(null);
+
+    process.env.LLM_PRICES = JSON.stringify({
+      "llama-3-70b": { input: 0.5, output: 0.8 },
+    });
+    expect(usageCost("llama-3-70b", usage)).to.equal(0.0009);
+  });
+
+  it("adds up usage, leaving the cost unknown after an unpriced call", function () {
+    const priced = addUsage(emptyUsage(), usage, usageCost("gpt-4o", usage));
+    const unpriced = addUsage(priced, usage, null);
+
+    expect(priced).to.deep.equal({
+      requests: 1,
+      input_tokens: 1000,
+      output_tokens: 500,
+      total_tokens: 1500,
+      cost_usd: 0.0075,
+    });
+    expect(unpriced).to.include({ requests: 2, total_tokens: 3000 });
+    expect(unpriced.cost_usd).to.equal(null);
+    expect(sumUsage(priced, priced)).to.include({
+      requests: 2,
+      cost_usd: 0.015,
+    });
+  });
+
+  it("validates budgets and refuses a cost budget for unpriced models", function () {
+    expect(resolveBudget({ max_total_tokens: "2000" }, ["stub"])).to.deep.equal(
+      { max_total_tokens: 2000, max_cost_usd: undefined }
+    );
+    expect(() =>
+      resolveBudget({ max_cost_usd: 1 }, ["gpt-4o", "stub"])
+    ).to.throw('No price known for model "stub"');
+    expect(() => resolveBudget({ max_total_tokens: -5 }, [])).to.throw(
+      "max_total_tokens must be a positive number"
+    );
+    expect(resolveMaxOutputTokens(undefined)).to.equal(
+      DEFAULT_MAX_OUTPUT_TOKENS
+    );
+    expect(() => resolveMaxOutputTokens(10.5)).to.throw(
+      "max_tokens must be an integer"
+    );
+  });
+
+  it("stops once either limit is reached", function () {
+    const spent = addUsage(emptyUsage(), usage, 0.01);
+
+    expect(budgetExhausted({ max_total_tokens: 1500 }, spent)).to.equal(true);
+    expect(budgetExhausted({ max_total_tokens: 1501 }, spent)).to.equal(false);
+    expect(budgetExhausted({ max_cost_usd: 0.01 }, spent)).to.equal(true);
+    expect(
+      budgetExhausted({ max_cost_usd: 0.01 }, { ...spent, cost_usd: null })
+    ).to.equal(false);
+    expect(budgetExhausted({}, spent)).to.equal(false);
+    expect(
+      remainingBudget({ max_total_tokens: 4000, max_cost_usd: 0.05 }, spent)
+    ).to.deep.equal({ max_total_tokens: 2500, max_cost_usd: 0.04 });
+  });
+});